@@ -0,0 +1,160 @@
+// MapSync service worker: keeps the app shell available offline, caches map
+// tiles from the offline tile provider, if one is configured, and shows
+// trip notifications.
+//
+// Firestore data is not handled here; the SDK persists it in IndexedDB itself.
+// Google Maps requests are never cached, as its terms don't allow it.
+
+const SHELL_CACHE = 'mapsync-shell-v2';
+// Unversioned so cached tiles survive app updates
+const TILE_CACHE = 'mapsync-tiles';
+const MAX_TILES = 3000;
+
+const SHELL_URLS = ['/', '/manifest.webmanifest', '/icon.svg'];
+// Written by the build (see vite.config.ts): the hashed /assets files the shell loads
+const PRECACHE_MANIFEST = '/precache-manifest.json';
+
+// URL prefix of the tile provider, passed by the page when registering
+const TILE_PREFIX = new URL(self.location.href).searchParams.get('tiles');
+
+// The page that registered the worker loaded its bundle before the worker was
+// in control, so the bundle is cached here rather than on its next fetch
+const getBuildAssets = async () => {
+  const response = await fetch(PRECACHE_MANIFEST, { cache: 'no-cache' });
+  if (!response.ok) throw new Error(`Could not load ${PRECACHE_MANIFEST}: ${response.status}`);
+  return response.json();
+};
+
+self.addEventListener('install', (event) => {
+  event.waitUntil((async () => {
+    const cache = await caches.open(SHELL_CACHE);
+    await cache.addAll([...SHELL_URLS, ...await getBuildAssets()]);
+    await self.skipWaiting();
+  })());
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(
+        keys
+          .filter(key => key.startsWith('mapsync-shell-') && key !== SHELL_CACHE)
+          .map(key => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+const isTileRequest = (url) => TILE_PREFIX !== null && url.startsWith(TILE_PREFIX);
+
+// Evicts the oldest tiles once the cache grows past MAX_TILES
+const trimTileCache = async () => {
+  const cache = await caches.open(TILE_CACHE);
+  const keys = await cache.keys();
+  await Promise.all(keys.slice(0, Math.max(0, keys.length - MAX_TILES)).map(key => cache.delete(key)));
+};
+
+const cacheFirst = async (request, cacheName) => {
+  const cache = await caches.open(cacheName);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  // Opaque (no-cors) tile responses have status 0 but are still usable
+  if (response.ok || response.type === 'opaque') {
+    cache.put(request, response.clone());
+  }
+  return response;
+};
+
+// Pages always try the network so deploys show up; offline they get the cached shell
+const networkFirstPage = async (request) => {
+  const cache = await caches.open(SHELL_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) cache.put('/', response.clone());
+    return response;
+  } catch (error) {
+    const cached = await cache.match('/');
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirstPage(request));
+  } else if (url.origin === self.location.origin && url.pathname.startsWith('/assets/')) {
+    // Vite fingerprints everything under /assets, so a cached copy never goes stale
+    event.respondWith(cacheFirst(request, SHELL_CACHE));
+  } else if (isTileRequest(request.url)) {
+    event.respondWith(cacheFirst(request, TILE_CACHE));
+  }
+});
+
+// The page asks for a trip's tiles ahead of time; see src/services/offlineTiles.ts
+self.addEventListener('message', (event) => {
+  if (event.data?.type !== 'CACHE_TILES' || !Array.isArray(event.data.urls)) return;
+
+  const urls = event.data.urls.filter(isTileRequest);
+
+  event.waitUntil((async () => {
+    const cache = await caches.open(TILE_CACHE);
+    for (const url of urls) {
+      if (await cache.match(url)) continue;
+      try {
+        const response = await fetch(url, { mode: 'no-cors' });
+        await cache.put(url, response);
+      } catch {
+        // Lost the connection part way; whatever was fetched stays cached
+        break;
+      }
+    }
+    await trimTileCache();
+  })());
+});
+
+// Notifications arrive by Web Push from a server, or as a LOCAL_PUSH message
+// from the page standing in for one; see src/services/notifications.ts
+const showPushNotification = (payload) =>
+  self.registration.showNotification(payload.title || 'MapSync', {
+    body: payload.body,
+    tag: payload.tag,
+    icon: '/icon.svg',
+    data: { url: payload.url || '/' }
+  });
+
+self.addEventListener('push', (event) => {
+  if (!event.data) return;
+
+  let payload;
+  try {
+    payload = event.data.json();
+  } catch {
+    payload = { body: event.data.text() };
+  }
+  event.waitUntil(showPushNotification(payload));
+});
+
+self.addEventListener('message', (event) => {
+  if (event.data?.type !== 'LOCAL_PUSH' || !event.data.payload) return;
+  event.waitUntil(showPushNotification(event.data.payload));
+});
+
+// Focus a tab already on the notification's page, or open one
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const url = new URL(event.notification.data?.url || '/', self.location.origin).href;
+
+  event.waitUntil((async () => {
+    const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    const open = windows.find(client => client.url === url);
+    if (open) return open.focus();
+    return self.clients.openWindow(url);
+  })());
+});
@@ -3,6 +3,7 @@ import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-d
 import LandingPage from './components/LandingPage';
 import Dashboard from './components/Dashboard';
 import TripView from './components/TripView';
+import JoinInvitePage from './components/JoinInvitePage';
 import { AuthProvider } from './contexts/AuthContext';
 import { TripProvider } from './contexts/TripContext';
 import ProtectedRoute from './components/ProtectedRoute';
@@ -30,6 +31,7 @@ function App() {
                 </ProtectedRoute>
               } 
             />
+            <Route path="/join/:code" element={<JoinInvitePage />} />
             <Route path="*" element={<Navigate to="/" replace />} />
           </Routes>
         </TripProvider>
@@ -0,0 +1,189 @@
+import React, { useState, useMemo } from 'react';
+import { Trip, Stop, TripRole } from '../contexts/TripContext';
+import { useAuth } from '../contexts/AuthContext';
+import { useTripActivity } from '../hooks/useTripActivity';
+import { ActivityEvent, ActivityType, ACTIVITY_TYPE_LABELS } from '../services/activity';
+import { TravelerProfile } from '../services/profiles';
+import { Seat } from '../services/vehicles';
+import { ROLE_LABELS } from '../utils/tripRoles';
+import { formatDateRange } from '../utils/format';
+import { ConvoySettings } from '../utils/convoyMonitor';
+import { formatMoney } from '../utils/expenses';
+import TravelerAvatar from './TravelerAvatar';
+
+interface ActivityFeedProps {
+  trip: Trip;
+  profiles: Record<string, TravelerProfile>;
+}
+
+const formatTimestamp = (ms: number) =>
+  new Intl.DateTimeFormat('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit'
+  }).format(new Date(ms));
+
+// The sentence after the actor's name, e.g. "added stop Big Sur"
+const describeEvent = (event: ActivityEvent, nameOf: (uid: string | null) => string): string => {
+  switch (event.type) {
+    case 'trip.created':
+      return `created the trip ${(event.after as { name: string }).name}`;
+    case 'trip.joined':
+      return 'joined the trip';
+    case 'trip.datesChanged': {
+      const { startDate, endDate } = event.after as { startDate: string | null; endDate: string | null };
+      const range = formatDateRange(startDate, endDate);
+      return range ? `set the trip dates to ${range}` : 'cleared the trip dates';
+    }
+    case 'trip.convoyChanged':
+      return (event.after as ConvoySettings).enabled ? 'changed the convoy alerts' : 'turned off convoy alerts';
+    case 'trip.archived':
+      return 'archived the trip';
+    case 'trip.unarchived':
+      return 'restored the trip from the archive';
+    case 'stop.added':
+      return `added stop ${(event.after as Stop).name}`;
+    case 'stop.updated': {
+      const before = event.before as Stop;
+      const after = event.after as Stop;
+      if (before.name !== after.name) return `renamed stop ${before.name} to ${after.name}`;
+      return `edited stop ${after.name}`;
+    }
+    case 'stop.removed':
+      return `removed stop ${(event.before as Stop).name}`;
+    case 'stops.reordered':
+      return 'reordered the stops';
+    case 'traveler.roleChanged': {
+      const before = event.before as TripRole | null;
+      const after = event.after as TripRole;
+      return before
+        ? `changed ${nameOf(event.subjectId)} from ${ROLE_LABELS[before]} to ${ROLE_LABELS[after]}`
+        : `made ${nameOf(event.subjectId)} ${ROLE_LABELS[after].toLowerCase()}`;
+    }
+    case 'traveler.removed':
+      return `removed ${nameOf(event.subjectId)} from the trip`;
+    case 'traveler.left':
+      return 'left the trip';
+    case 'trip.ownershipTransferred':
+      return `made ${nameOf(event.subjectId)} the owner`;
+    case 'vehicle.added':
+      return `added the car ${(event.after as { name: string }).name}`;
+    case 'vehicle.removed':
+      return `removed the car ${(event.before as { name: string }).name}`;
+    case 'traveler.seated': {
+      const before = event.before as { seat: Seat; vehicleName: string | null } | null;
+      const after = event.after as { seat: Seat; vehicleName: string | null } | null;
+      const self = event.subjectId === event.actorId;
+      if (!after) {
+        return self ? `got out of ${before?.vehicleName ?? 'a car'}` : `took ${nameOf(event.subjectId)} out of ${before?.vehicleName ?? 'a car'}`;
+      }
+      if (after.seat === 'driver') {
+        return self ? `is driving ${after.vehicleName}` : `made ${nameOf(event.subjectId)} the driver of ${after.vehicleName}`;
+      }
+      return self ? `got into ${after.vehicleName}` : `put ${nameOf(event.subjectId)} in ${after.vehicleName}`;
+    }
+    case 'expense.added': {
+      const after = event.after as { description: string; amount: number; currency: string; paidBy: string };
+      const payer = after.paidBy === event.actorId ? '' : ` paid by ${nameOf(after.paidBy)}`;
+      return `logged ${formatMoney(after.amount, after.currency)} for ${after.description}${payer}`;
+    }
+    case 'expense.removed': {
+      const before = event.before as { description: string; amount: number; currency: string };
+      return `removed the ${formatMoney(before.amount, before.currency)} expense for ${before.description}`;
+    }
+  }
+};
+
+const ActivityFeed: React.FC<ActivityFeedProps> = ({ trip, profiles }) => {
+  const { currentUser } = useAuth();
+  const { events, loading, error } = useTripActivity(trip.id);
+
+  const [actorFilter, setActorFilter] = useState('');
+  const [typeFilter, setTypeFilter] = useState<ActivityType | ''>('');
+
+  const nameOf = (uid: string | null) => {
+    if (!uid) return 'someone';
+    if (uid === currentUser?.uid) return 'you';
+    return profiles[uid]?.name || 'a former traveler';
+  };
+
+  // Former travelers stay in the filter while they have events in the log
+  const actorIds = useMemo(
+    () => Array.from(new Set([...trip.participants, ...events.map(event => event.actorId)])),
+    [trip.participants, events]
+  );
+
+  const filteredEvents = events.filter(event =>
+    (!actorFilter || event.actorId === actorFilter) && (!typeFilter || event.type === typeFilter)
+  );
+
+  return (
+    <div className="p-4">
+      <div className="flex space-x-2 mb-4">
+        <select
+          value={actorFilter}
+          onChange={(e) => setActorFilter(e.target.value)}
+          className="flex-1 min-w-0 px-2 py-1 text-xs border border-gray-300 rounded"
+          aria-label="Filter by traveler"
+        >
+          <option value="">Everyone</option>
+          {actorIds.map(uid => (
+            <option key={uid} value={uid}>
+              {uid === currentUser?.uid ? 'You' : profiles[uid]?.name || 'Former traveler'}
+            </option>
+          ))}
+        </select>
+        <select
+          value={typeFilter}
+          onChange={(e) => setTypeFilter(e.target.value as ActivityType | '')}
+          className="flex-1 min-w-0 px-2 py-1 text-xs border border-gray-300 rounded"
+          aria-label="Filter by event type"
+        >
+          <option value="">All activity</option>
+          {(Object.keys(ACTIVITY_TYPE_LABELS) as ActivityType[]).map(type => (
+            <option key={type} value={type}>{ACTIVITY_TYPE_LABELS[type]}</option>
+          ))}
+        </select>
+      </div>
+
+      {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+      {loading ? (
+        <div className="flex justify-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-blue-500"></div>
+        </div>
+      ) : filteredEvents.length === 0 ? (
+        <p className="text-sm text-gray-400 text-center py-8">
+          {events.length === 0 ? 'No activity yet' : 'No activity matches these filters'}
+        </p>
+      ) : (
+        <ol className="space-y-4">
+          {filteredEvents.map(event => {
+            const actor = profiles[event.actorId];
+            const actorName = nameOf(event.actorId);
+
+            return (
+              <li key={event.id} className="flex items-start">
+                {actor ? (
+                  <TravelerAvatar profile={actor} className="w-6 h-6 mr-3 mt-0.5" />
+                ) : (
+                  <div className="w-6 h-6 mr-3 mt-0.5 rounded-full bg-gray-200 flex-shrink-0" />
+                )}
+                <div className="min-w-0">
+                  <p className="text-sm text-gray-800">
+                    <span className="font-medium">{actorName.charAt(0).toUpperCase() + actorName.slice(1)}</span>{' '}
+                    {describeEvent(event, nameOf)}
+                  </p>
+                  <p className="text-xs text-gray-500">{formatTimestamp(event.createdAt)}</p>
+                </div>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+export default ActivityFeed;
@@ -1,6 +1,9 @@
 import React, { useState } from 'react';
 import { useTrip } from '../contexts/TripContext';
 import { X, MapPin } from 'lucide-react';
+import { resolvePlace, GeocodingResult, NoMatchError } from '../services/geocoding';
+import PlaceMatchList from './PlaceMatchList';
+import PlaceAutocomplete from './PlaceAutocomplete';
 
 interface AddStopModalProps {
   tripId: string;
@@ -13,6 +16,21 @@ const AddStopModal: React.FC<AddStopModalProps> = ({ tripId, onClose }) => {
   const [stopName, setStopName] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
+  const [matches, setMatches] = useState<GeocodingResult[]>([]);
+  const [selectedPlace, setSelectedPlace] = useState<GeocodingResult | null>(null);
+
+  const saveStop = async (place: GeocodingResult) => {
+    const success = await addStop(tripId, {
+      name: stopName.trim(),
+      location: place.location
+    });
+    
+    if (success) {
+      onClose();
+    } else {
+      setError('Failed to add stop. Please try again.');
+    }
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -24,25 +42,41 @@ const AddStopModal: React.FC<AddStopModalProps> = ({ tripId, onClose }) => {
     
     setIsLoading(true);
     setError('');
+    setMatches([]);
     
     try {
-      // In a real app, we would use Google Maps API to get coordinates
-      // Here we're using mock coordinates
-      const mockCoordinates = {
-        lat: 37.7749 + Math.random() * 5,
-        lng: -122.4194 + Math.random() * 5
-      };
+      if (selectedPlace) {
+        await saveStop(selectedPlace);
+        return;
+      }
       
-      const success = await addStop(tripId, {
-        name: stopName,
-        location: mockCoordinates
-      });
+      const places = await resolvePlace(stopName);
       
-      if (success) {
-        onClose();
+      if (places.length > 1) {
+        setMatches(places);
+        return;
+      }
+      
+      await saveStop(places[0]);
+    } catch (err) {
+      if (err instanceof NoMatchError) {
+        setError(err.message);
       } else {
-        setError('Failed to add stop. Please try again.');
+        setError('An error occurred. Please try again.');
+        console.error(err);
       }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleMatchSelect = async (place: GeocodingResult) => {
+    setIsLoading(true);
+    setError('');
+    setMatches([]);
+    
+    try {
+      await saveStop(place);
     } catch (err) {
       setError('An error occurred. Please try again.');
       console.error(err);
@@ -85,15 +119,29 @@ const AddStopModal: React.FC<AddStopModalProps> = ({ tripId, onClose }) => {
             <label htmlFor="stopName" className="block text-sm font-medium text-gray-700 mb-1">
               Stop Name or Address
             </label>
-            <input
-              type="text"
+            <PlaceAutocomplete
               id="stopName"
               value={stopName}
-              onChange={(e) => setStopName(e.target.value)}
-              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-blue-500 focus:border-blue-500"
+              onChange={(value) => {
+                setStopName(value);
+                setSelectedPlace(null);
+                setMatches([]);
+              }}
+              onSelect={(place) => {
+                setStopName(place.name);
+                setSelectedPlace(place);
+              }}
+              inputClassName="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-blue-500 focus:border-blue-500"
               placeholder="e.g., Monterey Bay Aquarium"
               required
             />
+            {matches.length > 0 && (
+              <PlaceMatchList
+                query={stopName}
+                matches={matches}
+                onSelect={handleMatchSelect}
+              />
+            )}
           </div>
           
           <div className="flex justify-end space-x-4 pt-4 border-t">
@@ -0,0 +1,72 @@
+import React from 'react';
+import { CheckCircle } from 'lucide-react';
+import { Trip } from '../contexts/TripContext';
+import { TravelerArrivals } from '../services/arrivals';
+import { TravelerProfile } from '../services/profiles';
+import { getTripGeofences } from '../utils/geofence';
+import { formatTime } from '../utils/format';
+import TravelerAvatar from './TravelerAvatar';
+
+interface ArrivalSummaryProps {
+  trip: Trip;
+  arrivals: Record<string, TravelerArrivals>;
+  profiles: Record<string, TravelerProfile>;
+}
+
+// "3 of 4 arrived at Big Sur" for every place somebody on the trip has reached
+const ArrivalSummary: React.FC<ArrivalSummaryProps> = ({ trip, arrivals, profiles }) => {
+  const places = getTripGeofences(trip)
+    .map(geofence => ({
+      geofence,
+      arrived: trip.participants.filter(uid => arrivals[uid]?.[geofence.id])
+    }))
+    .filter(place => place.arrived.length > 0);
+
+  if (places.length === 0) return null;
+
+  return (
+    <div className="p-4 border-t border-gray-200">
+      <h3 className="text-sm font-medium text-gray-500 mb-2">Arrivals</h3>
+      <ul className="space-y-3">
+        {places.map(({ geofence, arrived }) => {
+          const everyone = arrived.length === trip.participants.length;
+
+          return (
+            <li key={geofence.id}>
+              <p className={`flex items-center text-sm ${everyone ? 'text-green-700' : 'text-gray-700'}`}>
+                {everyone && <CheckCircle className="h-4 w-4 mr-1 flex-shrink-0" />}
+                <span className="truncate">
+                  {arrived.length} of {trip.participants.length} arrived at {geofence.name}
+                </span>
+              </p>
+              <div className="flex flex-wrap gap-1 mt-1">
+                {arrived.map(uid => {
+                  const profile = profiles[uid];
+                  const record = arrivals[uid][geofence.id];
+                  if (!profile) return null;
+
+                  return (
+                    <div
+                      key={uid}
+                      className={`flex items-center bg-gray-50 rounded-full pl-0.5 pr-2 py-0.5 text-xs text-gray-600 ${
+                        record.departedAt !== null ? 'opacity-60' : ''
+                      }`}
+                    >
+                      <TravelerAvatar profile={profile} className="w-5 h-5 mr-1" />
+                      <span>
+                        {formatTime(record.arrivedAt)}
+                        {record.departedAt !== null && ` – ${formatTime(record.departedAt)}`}
+                      </span>
+                    </div>
+                  );
+                })}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default ArrivalSummary;
@@ -0,0 +1,239 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { X, Send, MapPin, Flag } from 'lucide-react';
+import { Trip } from '../contexts/TripContext';
+import { useAuth } from '../contexts/AuthContext';
+import { useTripChat } from '../hooks/useTripChat';
+import { sendMessage, markChatRead, ChatMessage, MESSAGE_MAX_LENGTH } from '../services/chat';
+import { TravelerProfile } from '../services/profiles';
+import { LatLng } from '../utils/geo';
+import { MapHighlight } from './GroupMap';
+import TravelerAvatar from './TravelerAvatar';
+
+interface ChatPanelProps {
+  trip: Trip;
+  profiles: Record<string, TravelerProfile>;
+  onShowOnMap: (highlight: MapHighlight) => void;
+  onClose: () => void;
+}
+
+const formatTime = (ms: number) =>
+  new Date(ms).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+const getCurrentLocation = () =>
+  new Promise<LatLng>((resolve, reject) => {
+    if (!('geolocation' in navigator)) {
+      reject(new Error('Geolocation is not supported'));
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(
+      position => resolve({ lat: position.coords.latitude, lng: position.coords.longitude }),
+      reject,
+      { enableHighAccuracy: true, timeout: 10000 }
+    );
+  });
+
+const ChatPanel: React.FC<ChatPanelProps> = ({ trip, profiles, onShowOnMap, onClose }) => {
+  const { currentUser } = useAuth();
+  const { messages, error: loadError } = useTripChat(trip.id);
+
+  const [text, setText] = useState('');
+  const [stopId, setStopId] = useState('');
+  const [isPickingStop, setIsPickingStop] = useState(false);
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState('');
+
+  const listEndRef = useRef<HTMLDivElement>(null);
+  const latestMessage = messages[messages.length - 1];
+
+  // Everything on screen counts as read, and new messages scroll into view
+  useEffect(() => {
+    listEndRef.current?.scrollIntoView({ block: 'end' });
+
+    if (!currentUser) return;
+    markChatRead(trip.id, currentUser.uid).catch(err => {
+      console.error('Error marking chat read:', err);
+    });
+  }, [trip.id, currentUser, latestMessage?.id, latestMessage?.createdAt]);
+
+  const send = async (location: LatLng | null = null) => {
+    if (!currentUser) return;
+    if (!text.trim() && !location && !stopId) return;
+
+    setIsSending(true);
+    setError('');
+
+    try {
+      await sendMessage(trip.id, currentUser.uid, { text, location, stopId: stopId || null });
+      setText('');
+      setStopId('');
+      setIsPickingStop(false);
+    } catch (err) {
+      setError('Failed to send message. Please try again.');
+      console.error(err);
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    send();
+  };
+
+  const handleShareLocation = async () => {
+    setError('');
+    try {
+      send(await getCurrentLocation());
+    } catch (err) {
+      setError('Could not get your location. Check location permissions and try again.');
+      console.error(err);
+    }
+  };
+
+  const showMessageOnMap = (message: ChatMessage) => {
+    const stop = message.stopId ? trip.stops.find(s => s.id === message.stopId) : undefined;
+
+    if (stop) {
+      onShowOnMap({ markerId: stop.id, location: stop.location, label: stop.name, requestedAt: Date.now() });
+    } else if (message.location) {
+      const author = profiles[message.authorId]?.name || 'Traveler';
+      onShowOnMap({ markerId: null, location: message.location, label: `${author}'s location`, requestedAt: Date.now() });
+    }
+  };
+
+  const selectedStop = trip.stops.find(stop => stop.id === stopId);
+
+  return (
+    <div className="w-full md:w-80 bg-white border-t md:border-t-0 md:border-l border-gray-200 flex flex-col max-h-[70vh] md:max-h-none">
+      <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-gray-800">Chat</h2>
+        <button
+          onClick={onClose}
+          className="text-gray-500 hover:text-gray-700"
+          aria-label="Close chat"
+        >
+          <X className="h-5 w-5" />
+        </button>
+      </div>
+
+      <div className="flex-grow overflow-y-auto p-4 space-y-4" aria-live="polite">
+        {loadError && <p className="text-sm text-red-600">{loadError}</p>}
+        {messages.length === 0 && !loadError && (
+          <p className="text-sm text-gray-400 text-center">No messages yet. Say hello to your group!</p>
+        )}
+
+        {messages.map(message => {
+          const isYou = message.authorId === currentUser?.uid;
+          const author = profiles[message.authorId];
+          const stop = message.stopId ? trip.stops.find(s => s.id === message.stopId) : undefined;
+
+          return (
+            <div key={message.id} className={`flex items-end ${isYou ? 'flex-row-reverse' : ''}`}>
+              {author && !isYou && <TravelerAvatar profile={author} className="w-6 h-6 mr-2" />}
+              <div className={`max-w-[80%] ${isYou ? 'items-end' : 'items-start'} flex flex-col`}>
+                <p className="text-xs text-gray-500 mb-1">
+                  {isYou ? 'You' : author?.name || 'Former traveler'} · {formatTime(message.createdAt)}
+                </p>
+                <div className={`rounded-lg px-3 py-2 text-sm break-words ${
+                  isYou ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-800'
+                }`}>
+                  {message.text && <p className="whitespace-pre-wrap">{message.text}</p>}
+                  {message.stopId && (
+                    <button
+                      onClick={() => showMessageOnMap(message)}
+                      disabled={!stop}
+                      className={`flex items-center mt-1 text-xs font-medium underline ${stop ? '' : 'opacity-60 cursor-not-allowed'}`}
+                    >
+                      <Flag className="h-3 w-3 mr-1" />
+                      {stop ? stop.name : 'A removed stop'}
+                    </button>
+                  )}
+                  {message.location && !message.stopId && (
+                    <button
+                      onClick={() => showMessageOnMap(message)}
+                      className="flex items-center mt-1 text-xs font-medium underline"
+                    >
+                      <MapPin className="h-3 w-3 mr-1" />
+                      Shared a location
+                    </button>
+                  )}
+                </div>
+              </div>
+            </div>
+          );
+        })}
+        <div ref={listEndRef} />
+      </div>
+
+      <form onSubmit={handleSubmit} className="p-3 border-t border-gray-200 space-y-2">
+        {error && <p className="text-xs text-red-600">{error}</p>}
+
+        {isPickingStop && (
+          <select
+            value={stopId}
+            onChange={(e) => setStopId(e.target.value)}
+            className="w-full px-2 py-1 text-sm border border-gray-300 rounded"
+            aria-label="Stop to reference"
+          >
+            <option value="">No stop</option>
+            {trip.stops.map((stop, index) => (
+              <option key={stop.id} value={stop.id}>{index + 1}. {stop.name}</option>
+            ))}
+          </select>
+        )}
+
+        {selectedStop && !isPickingStop && (
+          <p className="text-xs text-blue-600 flex items-center">
+            <Flag className="h-3 w-3 mr-1" />
+            About {selectedStop.name}
+          </p>
+        )}
+
+        <div className="flex items-center space-x-1">
+          <button
+            type="button"
+            onClick={handleShareLocation}
+            disabled={isSending}
+            className="p-2 text-gray-500 hover:text-blue-600 rounded-full hover:bg-gray-100"
+            aria-label="Share my location"
+            title="Share my location"
+          >
+            <MapPin className="h-4 w-4" />
+          </button>
+          {trip.stops.length > 0 && (
+            <button
+              type="button"
+              onClick={() => setIsPickingStop(!isPickingStop)}
+              className={`p-2 rounded-full hover:bg-gray-100 ${stopId ? 'text-blue-600' : 'text-gray-500 hover:text-blue-600'}`}
+              aria-label="Reference a stop"
+              title="Reference a stop"
+            >
+              <Flag className="h-4 w-4" />
+            </button>
+          )}
+          <input
+            type="text"
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            maxLength={MESSAGE_MAX_LENGTH}
+            placeholder="Message your group"
+            className="flex-grow min-w-0 px-3 py-2 text-sm border border-gray-300 rounded-full focus:ring-blue-500 focus:border-blue-500"
+            aria-label="Message"
+          />
+          <button
+            type="submit"
+            disabled={isSending || (!text.trim() && !stopId)}
+            className={`p-2 bg-blue-600 text-white rounded-full hover:bg-blue-700 ${
+              isSending || (!text.trim() && !stopId) ? 'opacity-70 cursor-not-allowed' : ''
+            }`}
+            aria-label="Send"
+          >
+            <Send className="h-4 w-4" />
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default ChatPanel;
@@ -0,0 +1,45 @@
+import React, { useState } from 'react';
+import { AlertTriangle, X } from 'lucide-react';
+import { TravelerProfile } from '../services/profiles';
+import { ConvoyAlert, ConvoyReference, describeConvoyAlert } from '../utils/convoyMonitor';
+
+interface ConvoyAlertsProps {
+  alerts: ConvoyAlert[];
+  reference: ConvoyReference;
+  profiles: Record<string, TravelerProfile>;
+  currentUserId: string | undefined;
+}
+
+// A dismissed alert stays hidden until it clears and is raised again
+const alertKey = (alert: ConvoyAlert) => `${alert.uid}:${alert.type}:${alert.raisedAt}`;
+
+const ConvoyAlerts: React.FC<ConvoyAlertsProps> = ({ alerts, reference, profiles, currentUserId }) => {
+  const [dismissed, setDismissed] = useState<Set<string>>(new Set());
+
+  const describe = (alert: ConvoyAlert) =>
+    describeConvoyAlert(alert, reference, alert.uid === currentUserId ? null : profiles[alert.uid]?.name ?? 'A traveler');
+
+  return (
+    <>
+      {alerts.filter(alert => !dismissed.has(alertKey(alert))).map(alert => (
+        <div
+          key={alertKey(alert)}
+          className="flex items-start bg-white border border-red-200 text-red-700 text-sm rounded-lg shadow-md px-4 py-3"
+          role="alert"
+        >
+          <AlertTriangle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+          <span className="flex-1">{describe(alert)}</span>
+          <button
+            onClick={() => setDismissed(new Set(dismissed).add(alertKey(alert)))}
+            className="ml-2 text-red-400 hover:text-red-600"
+            aria-label="Dismiss alert"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      ))}
+    </>
+  );
+};
+
+export default ConvoyAlerts;
@@ -0,0 +1,166 @@
+import React, { useState } from 'react';
+import { Pencil } from 'lucide-react';
+import { Trip, useTrip } from '../contexts/TripContext';
+import { ConvoyReference, DEFAULT_CONVOY_SETTINGS } from '../utils/convoyMonitor';
+import { formatDistance, formatDuration } from '../utils/format';
+
+interface ConvoySettingsPanelProps {
+  trip: Trip;
+  // Viewers see the thresholds without edit controls
+  readOnly?: boolean;
+}
+
+const REFERENCE_LABELS: Record<ConvoyReference, string> = {
+  leader: 'the leader',
+  centroid: 'the group centre'
+};
+
+const ConvoySettingsPanel: React.FC<ConvoySettingsPanelProps> = ({ trip, readOnly = false }) => {
+  const { updateConvoySettings } = useTrip();
+  const settings = trip.convoy ?? DEFAULT_CONVOY_SETTINGS;
+
+  const [isEditing, setIsEditing] = useState(false);
+  const [enabled, setEnabled] = useState(true);
+  const [reference, setReference] = useState<ConvoyReference>('leader');
+  const [separationKm, setSeparationKm] = useState('');
+  const [offRouteMeters, setOffRouteMeters] = useState('');
+  const [graceMinutes, setGraceMinutes] = useState('');
+
+  const startEditing = () => {
+    setEnabled(settings.enabled);
+    setReference(settings.reference);
+    setSeparationKm(String(settings.maxSeparationMeters / 1000));
+    setOffRouteMeters(String(settings.maxOffRouteMeters));
+    setGraceMinutes(String(settings.offRouteGraceSeconds / 60));
+    setIsEditing(true);
+  };
+
+  const handleSave = async () => {
+    const maxSeparationMeters = Math.round(Number(separationKm) * 1000);
+    const maxOffRouteMeters = Math.round(Number(offRouteMeters));
+    const offRouteGraceSeconds = Math.round(Number(graceMinutes) * 60);
+    if (!(maxSeparationMeters > 0) || !(maxOffRouteMeters > 0) || !(offRouteGraceSeconds >= 0)) {
+      alert('Enter a distance above zero for both limits.');
+      return;
+    }
+    setIsEditing(false);
+
+    try {
+      await updateConvoySettings(trip.id, {
+        enabled,
+        reference,
+        maxSeparationMeters,
+        maxOffRouteMeters,
+        offRouteGraceSeconds
+      });
+    } catch (err) {
+      console.error('Error updating convoy alerts:', err);
+      alert('Failed to update the convoy alerts. Please try again.');
+    }
+  };
+
+  const inputClassName = 'mt-1 w-full px-2 py-1 text-sm border border-gray-300 rounded focus:ring-blue-500 focus:border-blue-500';
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-sm font-medium text-gray-500">Convoy alerts</h3>
+        {!readOnly && !isEditing && (
+          <button
+            onClick={startEditing}
+            className="p-1 text-gray-400 hover:text-blue-600"
+            aria-label="Edit convoy alerts"
+          >
+            <Pencil className="h-4 w-4" />
+          </button>
+        )}
+      </div>
+
+      {isEditing ? (
+        <div className="space-y-2">
+          <label className="flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={enabled}
+              onChange={(e) => setEnabled(e.target.checked)}
+              className="mr-2"
+            />
+            Alert when someone falls behind or leaves the route
+          </label>
+          <label className="block text-xs text-gray-500">
+            Measure distance from
+            <select
+              value={reference}
+              onChange={(e) => setReference(e.target.value as ConvoyReference)}
+              disabled={!enabled}
+              className={inputClassName}
+            >
+              <option value="leader">The leader, along the route</option>
+              <option value="centroid">The group centre</option>
+            </select>
+          </label>
+          <label className="block text-xs text-gray-500">
+            Fallen behind after (km)
+            <input
+              type="number"
+              min={0.1}
+              step={0.5}
+              value={separationKm}
+              onChange={(e) => setSeparationKm(e.target.value)}
+              disabled={!enabled}
+              className={inputClassName}
+            />
+          </label>
+          <label className="block text-xs text-gray-500">
+            Off route after (m)
+            <input
+              type="number"
+              min={50}
+              step={50}
+              value={offRouteMeters}
+              onChange={(e) => setOffRouteMeters(e.target.value)}
+              disabled={!enabled}
+              className={inputClassName}
+            />
+          </label>
+          <label className="block text-xs text-gray-500">
+            For at least (minutes)
+            <input
+              type="number"
+              min={0}
+              step={1}
+              value={graceMinutes}
+              onChange={(e) => setGraceMinutes(e.target.value)}
+              disabled={!enabled}
+              className={inputClassName}
+            />
+          </label>
+          <div className="flex justify-end space-x-2">
+            <button
+              onClick={() => setIsEditing(false)}
+              className="px-3 py-1 text-sm text-gray-600 hover:text-gray-800"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              className="px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      ) : settings.enabled ? (
+        <p className="text-sm text-gray-600">
+          When someone is more than {formatDistance(settings.maxSeparationMeters)} from {REFERENCE_LABELS[settings.reference]},
+          or {formatDistance(settings.maxOffRouteMeters)} off the route
+          {settings.offRouteGraceSeconds > 0 && ` for ${formatDuration(settings.offRouteGraceSeconds)}`}.
+        </p>
+      ) : (
+        <p className="text-sm text-gray-400">Off</p>
+      )}
+    </div>
+  );
+};
+
+export default ConvoySettingsPanel;
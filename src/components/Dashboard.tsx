@@ -1,39 +1,59 @@
-import React, { useState } from 'react';
+import React, { useState, useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
-import { useTrip } from '../contexts/TripContext';
-import { Map, LogOut, Plus, Users, Calendar, MapPin } from 'lucide-react';
+import { useTrip, Trip } from '../contexts/TripContext';
+import { Map, LogOut, Plus, Users, Calendar, MapPin, Upload } from 'lucide-react';
 import TripModal from './TripModal';
 import JoinTripForm from './JoinTripForm';
+import ImportTripModal from './ImportTripModal';
+import UnreadBadge from './UnreadBadge';
+import TripCardMenu from './TripCardMenu';
+import { formatDateRange } from '../utils/format';
+
+type TripSection = 'active' | 'upcoming' | 'archived';
+
+const TRIP_SECTIONS: { id: TripSection; label: string }[] = [
+  { id: 'active', label: 'Active Trips' },
+  { id: 'upcoming', label: 'Upcoming Trips' },
+  { id: 'archived', label: 'Archived' }
+];
+
+// Trips without dates count as active, as every trip did before dates existed
+const getTripSection = (trip: Trip, now: number): TripSection => {
+  if (trip.archivedAt) return 'archived';
+  if (trip.startDate && new Date(trip.startDate).getTime() > now) return 'upcoming';
+  return 'active';
+};
 
 const Dashboard: React.FC = () => {
   const { currentUser, logout } = useAuth();
-  const { trips, setCurrentTrip } = useTrip();
+  const { trips, loading, setCurrentTrip } = useTrip();
   const navigate = useNavigate();
   
   const [showTripModal, setShowTripModal] = useState(false);
   const [showJoinForm, setShowJoinForm] = useState(false);
+  const [showImportModal, setShowImportModal] = useState(false);
   const [isMenuOpen, setIsMenuOpen] = useState(false);
 
+  const tripsBySection = useMemo(() => {
+    const now = Date.now();
+    const sections: Record<TripSection, Trip[]> = { active: [], upcoming: [], archived: [] };
+    trips.forEach(trip => sections[getTripSection(trip, now)].push(trip));
+    // Soonest first; the others keep the newest-first order of the trip list
+    sections.upcoming.sort((a, b) => a.startDate!.localeCompare(b.startDate!));
+    return sections;
+  }, [trips]);
+
   const handleLogout = async () => {
     await logout();
     navigate('/');
   };
 
   const handleTripSelect = (trip: any) => {
-    setCurrentTrip(trip);
+    setCurrentTrip(trip.id);
     navigate(`/trip/${trip.id}`);
   };
 
-  const formatDate = (dateString: string) => {
-    const date = new Date(dateString);
-    return new Intl.DateTimeFormat('en-US', {
-      month: 'short',
-      day: 'numeric',
-      year: 'numeric'
-    }).format(date);
-  };
-
   return (
     <div className="min-h-screen bg-[#f8f8f8]">
       <header className="bg-black">
@@ -76,7 +96,7 @@ const Dashboard: React.FC = () => {
       </header>
 
       <main className="container mx-auto px-4 py-8">
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-12">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-12">
           <button
             onClick={() => setShowTripModal(true)}
             className="bg-black text-white p-8 rounded-xl hover:bg-gray-900 transition duration-300"
@@ -98,58 +118,83 @@ const Dashboard: React.FC = () => {
             </div>
             <p className="text-gray-600">Enter an invite code to join an existing trip</p>
           </button>
+          
+          <button
+            onClick={() => setShowImportModal(true)}
+            className="bg-white text-black p-8 rounded-xl border border-gray-200 hover:bg-gray-50 transition duration-300"
+          >
+            <div className="flex items-center mb-4">
+              <Upload className="h-6 w-6 mr-2" />
+              <h3 className="text-xl font-medium">Import a Route</h3>
+            </div>
+            <p className="text-gray-600">Create a trip from a GPX, KML, GeoJSON or CSV file</p>
+          </button>
         </div>
 
-        <div>
-          <h2 className="text-2xl font-semibold text-black mb-6">Recent Trips</h2>
-          
-          {trips.length > 0 ? (
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-              {trips.map(trip => (
-                <div 
-                  key={trip.id}
-                  onClick={() => handleTripSelect(trip)}
-                  className="bg-white rounded-xl overflow-hidden shadow-sm hover:shadow-md transition duration-300 cursor-pointer group"
-                >
-                  <div className="h-48 relative overflow-hidden">
-                    <div 
-                      className="absolute inset-0 bg-cover bg-center transform group-hover:scale-105 transition duration-500" 
-                      style={{ backgroundImage: `url('${trip.imageUrl}')` }}
-                    />
-                    <div className="absolute inset-0 bg-gradient-to-t from-black/60 via-black/20 to-transparent" />
-                    <div className="absolute bottom-4 left-4 right-4">
-                      <h3 className="text-white text-xl font-bold mb-2">{trip.name}</h3>
-                      <div className="flex items-center text-white/90 text-sm">
-                        <MapPin className="h-4 w-4 mr-1" />
-                        <span>{trip.origin.name} → {trip.destination.name}</span>
-                      </div>
-                    </div>
-                  </div>
-                  <div className="p-4 border-t border-gray-100">
-                    <div className="flex items-center justify-between text-sm text-gray-500">
-                      <div className="flex items-center">
-                        <Calendar className="h-4 w-4 mr-1" />
-                        <span>{formatDate(trip.createdAt)}</span>
-                      </div>
-                      <div className="flex items-center">
-                        <Users className="h-4 w-4 mr-1" />
-                        <span>{trip.participants.length} travelers</span>
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-black"></div>
+          </div>
+        ) : trips.length > 0 ? (
+          <div className="space-y-12">
+            {TRIP_SECTIONS.map(section => {
+              const sectionTrips = tripsBySection[section.id];
+              if (sectionTrips.length === 0) return null;
+
+              return (
+                <section key={section.id}>
+                  <h2 className="text-2xl font-semibold text-black mb-6">{section.label}</h2>
+                  <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                    {sectionTrips.map(trip => (
+                      <div 
+                        key={trip.id}
+                        onClick={() => handleTripSelect(trip)}
+                        className="bg-white rounded-xl overflow-hidden shadow-sm hover:shadow-md transition duration-300 cursor-pointer group"
+                      >
+                        <div className="h-48 relative overflow-hidden">
+                          <div 
+                            className="absolute inset-0 bg-cover bg-center transform group-hover:scale-105 transition duration-500" 
+                            style={{ backgroundImage: `url('${trip.imageUrl}')` }}
+                          />
+                          <div className="absolute inset-0 bg-gradient-to-t from-black/60 via-black/20 to-transparent" />
+                          <UnreadBadge tripId={trip.id} className="absolute top-3 right-3 shadow" />
+                          <TripCardMenu trip={trip} className="absolute top-3 left-3" />
+                          <div className="absolute bottom-4 left-4 right-4">
+                            <h3 className="text-white text-xl font-bold mb-2">{trip.name}</h3>
+                            <div className="flex items-center text-white/90 text-sm">
+                              <MapPin className="h-4 w-4 mr-1" />
+                              <span>{trip.origin.name} → {trip.destination.name}</span>
+                            </div>
+                          </div>
+                        </div>
+                        <div className="p-4 border-t border-gray-100">
+                          <div className="flex items-center justify-between text-sm text-gray-500">
+                            <div className="flex items-center">
+                              <Calendar className="h-4 w-4 mr-1" />
+                              <span>{formatDateRange(trip.startDate, trip.endDate) ?? 'Dates not set'}</span>
+                            </div>
+                            <div className="flex items-center">
+                              <Users className="h-4 w-4 mr-1" />
+                              <span>{trip.participants.length} travelers</span>
+                            </div>
+                          </div>
+                        </div>
                       </div>
-                    </div>
+                    ))}
                   </div>
-                </div>
-              ))}
-            </div>
-          ) : (
-            <div className="text-center py-12 bg-white rounded-xl border border-gray-200">
-              <div className="bg-gray-50 p-3 rounded-full inline-block mb-4">
-                <Map className="h-8 w-8 text-gray-400" />
-              </div>
-              <h3 className="text-xl font-medium text-gray-700 mb-2">No trips yet</h3>
-              <p className="text-gray-500">Start a new trip or join an existing one</p>
+                </section>
+              );
+            })}
+          </div>
+        ) : (
+          <div className="text-center py-12 bg-white rounded-xl border border-gray-200">
+            <div className="bg-gray-50 p-3 rounded-full inline-block mb-4">
+              <Map className="h-8 w-8 text-gray-400" />
             </div>
-          )}
-        </div>
+            <h3 className="text-xl font-medium text-gray-700 mb-2">No trips yet</h3>
+            <p className="text-gray-500">Start a new trip or join an existing one</p>
+          </div>
+        )}
       </main>
 
       {showTripModal && (
@@ -159,6 +204,10 @@ const Dashboard: React.FC = () => {
       {showJoinForm && (
         <JoinTripForm onClose={() => setShowJoinForm(false)} />
       )}
+      
+      {showImportModal && (
+        <ImportTripModal onClose={() => setShowImportModal(false)} />
+      )}
     </div>
   );
 };
@@ -0,0 +1,391 @@
+import React, { useState, useMemo } from 'react';
+import { Download, Plus, Trash2, ArrowRight } from 'lucide-react';
+import { Trip } from '../contexts/TripContext';
+import { useAuth } from '../contexts/AuthContext';
+import { useTripExpenses } from '../hooks/useTripExpenses';
+import { addExpense, deleteExpense } from '../services/expenses';
+import { TravelerProfile } from '../services/profiles';
+import {
+  Expense,
+  ExpenseSplit,
+  SplitMode,
+  SPLIT_MODE_LABELS,
+  CURRENCIES,
+  DESCRIPTION_MAX_LENGTH,
+  parseAmount,
+  formatMoney,
+  splitExpense,
+  validateExpense,
+  computeBalances,
+  settleUp,
+  toExpensesCsv
+} from '../utils/expenses';
+import { downloadFile, toFileName } from '../utils/tripExport';
+import { canEditTrip } from '../utils/tripRoles';
+
+interface ExpensesProps {
+  trip: Trip;
+  profiles: Record<string, TravelerProfile>;
+}
+
+const inputClassName = 'w-full px-2 py-1 text-sm border border-gray-300 rounded focus:ring-blue-500 focus:border-blue-500';
+
+const Expenses: React.FC<ExpensesProps> = ({ trip, profiles }) => {
+  const { currentUser } = useAuth();
+  const expenses = useTripExpenses(trip.id);
+
+  const [isAdding, setIsAdding] = useState(false);
+  const [description, setDescription] = useState('');
+  const [amount, setAmount] = useState('');
+  const [currency, setCurrency] = useState('USD');
+  const [paidBy, setPaidBy] = useState('');
+  const [stopId, setStopId] = useState('');
+  const [splitMode, setSplitMode] = useState<SplitMode>('equal');
+  const [included, setIncluded] = useState<Record<string, boolean>>({});
+  const [shares, setShares] = useState<Record<string, string>>({});
+  const [exactAmounts, setExactAmounts] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  const nameOf = (uid: string) =>
+    uid === currentUser?.uid ? 'You' : profiles[uid]?.name ?? 'Former traveler';
+  const stopNameOf = (id: string) => trip.stops.find(stop => stop.id === id)?.name ?? null;
+
+  // Everyone with money involved, including travelers who have since left
+  const travelers = useMemo(() => {
+    const involved = new Set(trip.participants);
+    expenses.forEach(expense => {
+      involved.add(expense.paidBy);
+      Object.keys(expense.split.weights).forEach(uid => involved.add(uid));
+    });
+    return [...involved];
+  }, [trip.participants, expenses]);
+
+  const balances = useMemo(() => computeBalances(expenses), [expenses]);
+  const currencies = Object.keys(balances).sort();
+  const transfers = useMemo(
+    () => Object.keys(balances).sort().flatMap(code => settleUp(balances[code], code)),
+    [balances]
+  );
+
+  const startAdding = () => {
+    setDescription('');
+    setAmount('');
+    // Most trips spend in one currency, so keep using the last one
+    setCurrency(expenses[expenses.length - 1]?.currency ?? 'USD');
+    setPaidBy(currentUser?.uid ?? trip.participants[0]);
+    setStopId('');
+    setSplitMode('equal');
+    setIncluded(Object.fromEntries(trip.participants.map(uid => [uid, true])));
+    setShares(Object.fromEntries(trip.participants.map(uid => [uid, '1'])));
+    setExactAmounts({});
+    setError(null);
+    setIsAdding(true);
+  };
+
+  const buildSplit = (): ExpenseSplit => {
+    const weights: Record<string, number> = {};
+    trip.participants.forEach(uid => {
+      if (splitMode === 'equal') {
+        if (included[uid]) weights[uid] = 1;
+      } else if (splitMode === 'shares') {
+        if (shares[uid]?.trim()) weights[uid] = Number(shares[uid]);
+      } else if (exactAmounts[uid]?.trim()) {
+        // Unparseable amounts become NaN, which validation rejects
+        weights[uid] = parseAmount(exactAmounts[uid], currency) ?? NaN;
+      }
+    });
+    return { mode: splitMode, weights };
+  };
+
+  const parsedAmount = parseAmount(amount, currency);
+  const preview = parsedAmount !== null && splitMode !== 'exact'
+    ? splitExpense({ amount: parsedAmount, split: buildSplit() })
+    : {};
+  const unassigned = parsedAmount !== null && splitMode === 'exact'
+    ? parsedAmount - Object.values(buildSplit().weights).reduce((sum, weight) => sum + (weight || 0), 0)
+    : null;
+
+  const handleAdd = async () => {
+    if (!currentUser) return;
+    if (!description.trim()) {
+      setError('Say what the expense was for.');
+      return;
+    }
+
+    const expense = {
+      description,
+      amount: parsedAmount ?? NaN,
+      currency,
+      paidBy,
+      split: buildSplit(),
+      stopId: stopId || null
+    };
+    const problem = validateExpense(expense);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    setIsAdding(false);
+
+    try {
+      await addExpense(trip.id, currentUser.uid, expense);
+    } catch (err) {
+      console.error('Error adding expense:', err);
+      alert('Failed to add expense. Please try again.');
+    }
+  };
+
+  const handleDelete = async (expense: Expense) => {
+    if (!currentUser || !window.confirm(`Remove ${expense.description}?`)) return;
+
+    try {
+      await deleteExpense(trip.id, currentUser.uid, expense);
+    } catch (err) {
+      console.error('Error removing expense:', err);
+      alert('Failed to remove expense. Please try again.');
+    }
+  };
+
+  const exportCsv = () => {
+    const csv = toExpensesCsv(expenses, travelers, uid => profiles[uid]?.name ?? 'Former traveler', stopNameOf);
+    downloadFile(`${toFileName(trip.name)}-expenses.csv`, csv, 'text/csv');
+  };
+
+  const canRemove = (expense: Expense) =>
+    expense.createdBy === currentUser?.uid || canEditTrip(trip, currentUser?.uid);
+
+  return (
+    <div className="p-4">
+      <div className="mb-6">
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="text-sm font-medium text-gray-500">Balances</h3>
+          {expenses.length > 0 && (
+            <button
+              onClick={exportCsv}
+              className="flex items-center text-xs font-medium text-blue-600 hover:text-blue-700"
+            >
+              <Download className="h-3 w-3 mr-1" />
+              Export CSV
+            </button>
+          )}
+        </div>
+
+        {expenses.length === 0 ? (
+          <p className="text-sm text-gray-400">No expenses yet</p>
+        ) : transfers.length === 0 ? (
+          <p className="text-sm text-green-700">Everyone is settled up</p>
+        ) : (
+          <>
+            {currencies.map(code => (
+              <ul key={code} className="space-y-1 mb-2">
+                {travelers
+                  .filter(uid => balances[code][uid])
+                  .map(uid => {
+                    const balance = balances[code][uid];
+                    return (
+                      <li key={uid} className="flex justify-between text-sm">
+                        <span className="text-gray-700 truncate">{nameOf(uid)}</span>
+                        <span className={balance > 0 ? 'text-green-700' : 'text-red-600'}>
+                          {balance > 0 ? 'gets back ' : 'owes '}
+                          {formatMoney(Math.abs(balance), code)}
+                        </span>
+                      </li>
+                    );
+                  })}
+              </ul>
+            ))}
+
+            <h4 className="text-xs font-medium text-gray-500 mt-4 mb-1">To settle up</h4>
+            <ul className="space-y-1">
+              {transfers.map(transfer => (
+                <li
+                  key={`${transfer.currency}:${transfer.from}:${transfer.to}`}
+                  className="flex items-center text-sm text-gray-700"
+                >
+                  <span className="truncate">{nameOf(transfer.from)}</span>
+                  <ArrowRight className="h-3 w-3 mx-1 flex-shrink-0 text-gray-400" />
+                  <span className="truncate flex-1">{nameOf(transfer.to)}</span>
+                  <span className="font-medium">{formatMoney(transfer.amount, transfer.currency)}</span>
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+      </div>
+
+      {isAdding ? (
+        <div className="mb-6 rounded-lg border border-gray-200 p-3 space-y-2">
+          <input
+            type="text"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            maxLength={DESCRIPTION_MAX_LENGTH}
+            placeholder="What was it for?"
+            className={inputClassName}
+            aria-label="Description"
+            autoFocus
+          />
+          <div className="flex space-x-2">
+            <input
+              type="text"
+              inputMode="decimal"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              placeholder="0.00"
+              className={inputClassName}
+              aria-label="Amount"
+            />
+            <select
+              value={currency}
+              onChange={(e) => setCurrency(e.target.value)}
+              className="px-1 py-1 text-sm border border-gray-300 rounded"
+              aria-label="Currency"
+            >
+              {CURRENCIES.map(code => <option key={code} value={code}>{code}</option>)}
+            </select>
+          </div>
+          <label className="block text-xs text-gray-500">
+            Paid by
+            <select value={paidBy} onChange={(e) => setPaidBy(e.target.value)} className={`mt-1 ${inputClassName}`}>
+              {trip.participants.map(uid => <option key={uid} value={uid}>{nameOf(uid)}</option>)}
+            </select>
+          </label>
+          {trip.stops.length > 0 && (
+            <label className="block text-xs text-gray-500">
+              Stop
+              <select value={stopId} onChange={(e) => setStopId(e.target.value)} className={`mt-1 ${inputClassName}`}>
+                <option value="">None</option>
+                {trip.stops.map(stop => <option key={stop.id} value={stop.id}>{stop.name}</option>)}
+              </select>
+            </label>
+          )}
+
+          <div>
+            <p className="text-xs text-gray-500 mb-1">Split</p>
+            <div className="flex rounded border border-gray-300 overflow-hidden mb-2" role="radiogroup">
+              {(Object.keys(SPLIT_MODE_LABELS) as SplitMode[]).map(mode => (
+                <button
+                  key={mode}
+                  type="button"
+                  onClick={() => setSplitMode(mode)}
+                  className={`flex-1 px-2 py-1 text-xs ${
+                    splitMode === mode ? 'bg-blue-600 text-white' : 'text-gray-600 hover:bg-gray-50'
+                  }`}
+                  role="radio"
+                  aria-checked={splitMode === mode}
+                >
+                  {SPLIT_MODE_LABELS[mode]}
+                </button>
+              ))}
+            </div>
+
+            <ul className="space-y-1">
+              {trip.participants.map(uid => (
+                <li key={uid} className="flex items-center text-sm text-gray-700">
+                  {splitMode === 'equal' ? (
+                    <label className="flex items-center flex-1 min-w-0">
+                      <input
+                        type="checkbox"
+                        checked={!!included[uid]}
+                        onChange={(e) => setIncluded({ ...included, [uid]: e.target.checked })}
+                        className="mr-2"
+                      />
+                      <span className="truncate">{nameOf(uid)}</span>
+                    </label>
+                  ) : (
+                    <>
+                      <span className="flex-1 min-w-0 truncate">{nameOf(uid)}</span>
+                      <input
+                        type="text"
+                        inputMode={splitMode === 'shares' ? 'numeric' : 'decimal'}
+                        value={(splitMode === 'shares' ? shares : exactAmounts)[uid] ?? ''}
+                        onChange={(e) => splitMode === 'shares'
+                          ? setShares({ ...shares, [uid]: e.target.value })
+                          : setExactAmounts({ ...exactAmounts, [uid]: e.target.value })}
+                        placeholder={splitMode === 'shares' ? '0' : '0.00'}
+                        className="w-20 ml-2 px-2 py-0.5 text-sm border border-gray-300 rounded text-right"
+                        aria-label={`${nameOf(uid)}'s ${splitMode === 'shares' ? 'shares' : 'amount'}`}
+                      />
+                    </>
+                  )}
+                  {splitMode !== 'exact' && preview[uid] !== undefined && (
+                    <span className="ml-2 text-xs text-gray-400">{formatMoney(preview[uid], currency)}</span>
+                  )}
+                </li>
+              ))}
+            </ul>
+            {unassigned !== null && unassigned !== 0 && (
+              <p className={`mt-1 text-xs ${unassigned > 0 ? 'text-gray-500' : 'text-red-600'}`}>
+                {unassigned > 0
+                  ? `${formatMoney(unassigned, currency)} left to assign`
+                  : `${formatMoney(-unassigned, currency)} too much assigned`}
+              </p>
+            )}
+          </div>
+
+          {error && <p className="text-xs text-red-600">{error}</p>}
+
+          <div className="flex justify-end space-x-2">
+            <button
+              onClick={() => setIsAdding(false)}
+              className="px-3 py-1 text-sm text-gray-600 hover:text-gray-800"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleAdd}
+              className="px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700"
+            >
+              Add expense
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button
+          onClick={startAdding}
+          className="mb-6 flex items-center text-xs font-medium text-blue-600 hover:text-blue-700"
+        >
+          <Plus className="h-3 w-3 mr-1" />
+          Add an expense
+        </button>
+      )}
+
+      {expenses.length > 0 && (
+        <div>
+          <h3 className="text-sm font-medium text-gray-500 mb-2">Expenses</h3>
+          <ul className="space-y-3">
+            {[...expenses].reverse().map(expense => {
+              const stopName = expense.stopId ? stopNameOf(expense.stopId) : null;
+
+              return (
+                <li key={expense.id} className="flex items-start">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex justify-between">
+                      <p className="font-medium text-gray-800 truncate">{expense.description}</p>
+                      <p className="ml-2 font-medium text-gray-800">{formatMoney(expense.amount, expense.currency)}</p>
+                    </div>
+                    <p className="text-xs text-gray-500">
+                      {nameOf(expense.paidBy)} paid · split {SPLIT_MODE_LABELS[expense.split.mode].toLowerCase()}
+                      {stopName && ` · ${stopName}`}
+                    </p>
+                  </div>
+                  {canRemove(expense) && (
+                    <button
+                      onClick={() => handleDelete(expense)}
+                      className="ml-2 p-1 text-gray-400 hover:text-red-600"
+                      aria-label={`Remove ${expense.description}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Expenses;
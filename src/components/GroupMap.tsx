@@ -1,29 +1,130 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect } from 'react';
+import { CloudOff } from 'lucide-react';
 import { GoogleMap, useJsApiLoader, Marker, Polyline, InfoWindow } from '@react-google-maps/api';
-import { MapPin } from 'lucide-react';
 import { Trip } from '../contexts/TripContext';
+import { ParticipantPresence } from '../hooks/useTripPresence';
+import { GOOGLE_MAPS_API_KEY } from '../config/maps';
+import { Route } from '../services/routing';
+import { TravelerProfile } from '../services/profiles';
+import { Vehicle, getVehicleOccupants, getVehiclePosition } from '../services/vehicles';
+import { LatLng } from '../utils/geo';
+import { formatTileUrl } from '../utils/tiles';
+import { OFFLINE_TILE_URL, OFFLINE_TILE_ATTRIBUTION } from '../services/offlineTiles';
+import { useOnlineStatus } from '../hooks/useOnlineStatus';
+
+// A point something outside the map wants shown, e.g. a chat message
+export interface MapHighlight {
+  // 'origin', 'destination' or a stop id; null for a point without its own marker
+  markerId: string | null;
+  location: LatLng;
+  label: string;
+  // Differs on every request, so showing the same point twice re-centres the map
+  requestedAt: number;
+}
 
 interface GroupMapProps {
   trip: Trip;
+  locations: ParticipantPresence[];
+  currentUserId?: string;
+  profiles: Record<string, TravelerProfile>;
+  // Travelers in a car are drawn as that car instead of individually
+  vehicles?: Vehicle[];
+  now: number;
+  route?: Route | null;
+  highlight?: MapHighlight | null;
 }
 
-// Mock API key - in a real app, this would be an environment variable
-const GOOGLE_MAPS_API_KEY = 'YOUR_GOOGLE_MAPS_API_KEY';
-
 // Map container style
 const containerStyle = {
   width: '100%',
   height: '100%'
 };
 
-const GroupMap: React.FC<GroupMapProps> = ({ trip }) => {
-  const { isLoaded } = useJsApiLoader({
+const STATUS_LABELS = {
+  live: 'Live',
+  stale: 'Signal lost',
+  offline: 'Offline'
+};
+
+const HIGHLIGHT_BOUNCE_MS = 2100;
+
+const COMPASS_POINTS = ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'];
+
+const formatAge = (ms: number) => {
+  const seconds = Math.max(0, Math.round(ms / 1000));
+  if (seconds < 10) return 'just now';
+  if (seconds < 60) return `${seconds}s ago`;
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) return `${minutes} min ago`;
+  return `${Math.round(minutes / 60)} h ago`;
+};
+
+const getTravelerIcon = (participant: ParticipantPresence, color: string): google.maps.Symbol => {
+  const fillColor = participant.status === 'offline' ? '#9ca3af' : color;
+  const fillOpacity = participant.status === 'live' ? 1 : 0.5;
+
+  // Only trust the heading while the fix is fresh
+  if (participant.heading !== null && participant.status === 'live') {
+    return {
+      path: google.maps.SymbolPath.FORWARD_CLOSED_ARROW,
+      rotation: participant.heading,
+      scale: 6,
+      fillColor,
+      fillOpacity,
+      strokeColor: '#ffffff',
+      strokeWeight: 2,
+    };
+  }
+
+  return {
+    path: google.maps.SymbolPath.CIRCLE,
+    scale: 8,
+    fillColor,
+    fillOpacity,
+    strokeColor: participant.status === 'stale' ? '#f59e0b' : '#ffffff',
+    strokeWeight: 2,
+  };
+};
+
+// A car seen from above, centred on its middle
+const CAR_PATH = 'M -6 -10 L 6 -10 Q 8 -10 8 -8 L 8 8 Q 8 10 6 10 L -6 10 Q -8 10 -8 8 L -8 -8 Q -8 -10 -6 -10 Z M -5 -6 L 5 -6 L 4 -2 L -4 -2 Z';
+
+const getVehicleIcon = (position: ParticipantPresence, color: string): google.maps.Symbol => ({
+  path: CAR_PATH,
+  // Point the car the way it's heading while the fix is fresh
+  rotation: position.status === 'live' && position.heading !== null ? position.heading : 0,
+  scale: 1.2,
+  fillColor: position.status === 'offline' ? '#9ca3af' : color,
+  fillOpacity: position.status === 'live' ? 1 : 0.5,
+  strokeColor: position.status === 'stale' ? '#f59e0b' : '#ffffff',
+  strokeWeight: 2,
+});
+
+const GroupMap: React.FC<GroupMapProps> = ({ trip, locations, currentUserId, profiles, vehicles = [], now, route, highlight }) => {
+  const { isLoaded, loadError } = useJsApiLoader({
     id: 'google-map-script',
     googleMapsApiKey: GOOGLE_MAPS_API_KEY
   });
+  const online = useOnlineStatus();
 
   const [map, setMap] = useState<google.maps.Map | null>(null);
   const [selectedMarker, setSelectedMarker] = useState<string | null>(null);
+  const [bouncingMarker, setBouncingMarker] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!highlight) return;
+
+    const markerId = highlight.markerId ?? 'highlight';
+    map?.panTo(highlight.location);
+    setSelectedMarker(markerId);
+    setBouncingMarker(markerId);
+
+    const timeout = setTimeout(() => setBouncingMarker(null), HIGHLIGHT_BOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [highlight, map]);
+
+  const bounceFor = (markerId: string) =>
+    bouncingMarker === markerId ? google.maps.Animation.BOUNCE : undefined;
 
   // Calculate center of the map based on all points
   const center = React.useMemo(() => {
@@ -55,11 +156,50 @@ const GroupMap: React.FC<GroupMapProps> = ({ trip }) => {
     ];
   }, [trip]);
 
+  // Ignore presence left behind by people who are no longer on the trip
+  const travelers = React.useMemo(
+    () => locations.filter(location => trip.participants.includes(location.uid)),
+    [locations, trip.participants]
+  );
+
+  // One marker per car with a known position, standing in for everyone in it
+  const vehicleMarkers = React.useMemo(
+    () => vehicles
+      .map(vehicle => ({ vehicle, position: getVehiclePosition(vehicle, travelers) }))
+      .filter((marker): marker is { vehicle: Vehicle; position: ParticipantPresence } => marker.position !== undefined),
+    [vehicles, travelers]
+  );
+
+  const soloTravelers = React.useMemo(() => {
+    const inCars = new Set(vehicleMarkers.flatMap(({ vehicle }) => getVehicleOccupants(vehicle)));
+    return travelers.filter(traveler => !inCars.has(traveler.uid));
+  }, [travelers, vehicleMarkers]);
+
+  const selectedTraveler = selectedMarker?.startsWith('traveler:')
+    ? soloTravelers.find(traveler => `traveler:${traveler.uid}` === selectedMarker)
+    : undefined;
+
+  const selectedVehicle = selectedMarker?.startsWith('vehicle:')
+    ? vehicleMarkers.find(({ vehicle }) => `vehicle:${vehicle.id}` === selectedMarker)
+    : undefined;
+
   const onLoad = useCallback((map: google.maps.Map) => {
     // Fit bounds to include all points
     const bounds = new google.maps.LatLngBounds();
     path.forEach(point => bounds.extend(point));
     map.fitBounds(bounds);
+
+    // Use the cacheable tile server as the basemap so areas cached by the
+    // service worker still render after the connection drops
+    if (OFFLINE_TILE_URL) {
+      map.mapTypes.set('offline', new google.maps.ImageMapType({
+        name: 'Map',
+        tileSize: new google.maps.Size(256, 256),
+        maxZoom: 19,
+        getTileUrl: ({ x, y }, z) => formatTileUrl(OFFLINE_TILE_URL, { x, y, z })
+      }));
+      map.setMapTypeId('offline');
+    }
     
     setMap(map);
   }, [path]);
@@ -68,6 +208,21 @@ const GroupMap: React.FC<GroupMapProps> = ({ trip }) => {
     setMap(null);
   }, []);
 
+  // The Maps script can't load without a connection; don't spin forever
+  if (loadError || (!isLoaded && !online)) {
+    return (
+      <div className="w-full h-full flex flex-col items-center justify-center bg-gray-100 text-center px-4">
+        <CloudOff className="h-10 w-10 text-gray-400 mb-3" />
+        <p className="font-medium text-gray-700">
+          {online ? 'The map failed to load' : 'Map unavailable offline'}
+        </p>
+        <p className="text-sm text-gray-500 mt-1">
+          {online ? 'Try reloading the page.' : "The trip's stops are still listed in the side panel."}
+        </p>
+      </div>
+    );
+  }
+
   if (!isLoaded) {
     return (
       <div className="w-full h-full flex items-center justify-center bg-gray-100">
@@ -77,7 +232,7 @@ const GroupMap: React.FC<GroupMapProps> = ({ trip }) => {
   }
 
   return (
-    <div className="w-full h-full">
+    <div className="relative w-full h-full">
       <GoogleMap
         mapContainerStyle={containerStyle}
         center={center}
@@ -103,6 +258,7 @@ const GroupMap: React.FC<GroupMapProps> = ({ trip }) => {
             scale: 2,
             anchor: new google.maps.Point(12, 22),
           }}
+          animation={bounceFor('origin')}
           onClick={() => setSelectedMarker('origin')}
         />
         
@@ -137,6 +293,7 @@ const GroupMap: React.FC<GroupMapProps> = ({ trip }) => {
               scale: 2,
               anchor: new google.maps.Point(12, 22),
             }}
+            animation={bounceFor(stop.id)}
             onClick={() => setSelectedMarker(stop.id)}
           />
         ))}
@@ -165,6 +322,7 @@ const GroupMap: React.FC<GroupMapProps> = ({ trip }) => {
             scale: 2,
             anchor: new google.maps.Point(12, 22),
           }}
+          animation={bounceFor('destination')}
           onClick={() => setSelectedMarker('destination')}
         />
         
@@ -180,33 +338,129 @@ const GroupMap: React.FC<GroupMapProps> = ({ trip }) => {
           </InfoWindow>
         )}
         
-        {/* Route Polyline */}
+        {/* Shared location from chat */}
+        {highlight && highlight.markerId === null && (
+          <Marker
+            position={highlight.location}
+            icon={{
+              path: 'M12 2C8.13 2 5 5.13 5 9c0 5.25 7 13 7 13s7-7.75 7-13c0-3.87-3.13-7-7-7zm0 9.5c-1.38 0-2.5-1.12-2.5-2.5s1.12-2.5 2.5-2.5 2.5 1.12 2.5 2.5-1.12 2.5-2.5 2.5z',
+              fillColor: '#f59e0b',
+              fillOpacity: 1,
+              strokeWeight: 1,
+              strokeColor: '#ffffff',
+              scale: 2,
+              anchor: new google.maps.Point(12, 22),
+            }}
+            zIndex={4}
+            animation={bounceFor('highlight')}
+            onClick={() => setSelectedMarker('highlight')}
+          />
+        )}
+
+        {highlight && highlight.markerId === null && selectedMarker === 'highlight' && (
+          <InfoWindow
+            position={highlight.location}
+            onCloseClick={() => setSelectedMarker(null)}
+          >
+            <div className="p-1">
+              <p className="font-medium">{highlight.label}</p>
+              <p className="text-xs text-gray-500">Shared location</p>
+            </div>
+          </InfoWindow>
+        )}
+
+        {/* Route Polyline: road geometry when routed, straight lines otherwise */}
         <Polyline
-          path={path}
+          path={route ? route.path : path}
           options={{
             strokeColor: '#3b82f6',
-            strokeOpacity: 0.8,
+            strokeOpacity: route ? 0.8 : 0.5,
             strokeWeight: 4,
           }}
         />
         
-        {/* User Markers (Mock) */}
-        {trip.participants.map((participant, index) => (
+        {/* Traveler Markers */}
+        {soloTravelers.map(traveler => (
           <Marker
-            key={participant}
-            position={{
-              lat: path[Math.min(index, path.length - 1)].lat + (Math.random() * 0.01),
-              lng: path[Math.min(index, path.length - 1)].lng + (Math.random() * 0.01)
-            }}
-            icon={{
-              url: index === 0 
-                ? 'https://maps.google.com/mapfiles/ms/icons/blue-dot.png'
-                : 'https://maps.google.com/mapfiles/ms/icons/green-dot.png',
-              scaledSize: new google.maps.Size(32, 32)
-            }}
+            key={traveler.uid}
+            position={traveler.location}
+            title={profiles[traveler.uid].name}
+            icon={getTravelerIcon(traveler, profiles[traveler.uid].color)}
+            zIndex={traveler.status === 'live' ? 3 : traveler.status === 'stale' ? 2 : 1}
+            onClick={() => setSelectedMarker(`traveler:${traveler.uid}`)}
           />
         ))}
+
+        {selectedTraveler && (
+          <InfoWindow
+            position={selectedTraveler.location}
+            onCloseClick={() => setSelectedMarker(null)}
+          >
+            <div className="p-1">
+              <p className="font-medium">
+                {profiles[selectedTraveler.uid].name}
+                {selectedTraveler.uid === currentUserId && ' (You)'}
+              </p>
+              <p className="text-xs text-gray-500">
+                {STATUS_LABELS[selectedTraveler.status]} · Updated {formatAge(now - selectedTraveler.updatedAt)}
+              </p>
+              {selectedTraveler.status === 'live' && selectedTraveler.heading !== null && (
+                <p className="text-xs text-gray-500">
+                  Heading {COMPASS_POINTS[Math.round(selectedTraveler.heading / 45) % 8]}
+                  {selectedTraveler.speed !== null && ` at ${Math.round(selectedTraveler.speed * 3.6)} km/h`}
+                </p>
+              )}
+            </div>
+          </InfoWindow>
+        )}
+
+        {/* Vehicle Markers */}
+        {vehicleMarkers.map(({ vehicle, position }) => (
+          <Marker
+            key={vehicle.id}
+            position={position.location}
+            title={vehicle.name}
+            icon={getVehicleIcon(position, vehicle.color)}
+            zIndex={position.status === 'live' ? 3 : position.status === 'stale' ? 2 : 1}
+            onClick={() => setSelectedMarker(`vehicle:${vehicle.id}`)}
+          />
+        ))}
+
+        {selectedVehicle && (
+          <InfoWindow
+            position={selectedVehicle.position.location}
+            onCloseClick={() => setSelectedMarker(null)}
+          >
+            <div className="p-1">
+              <p className="font-medium flex items-center">
+                <span className="inline-block w-3 h-3 rounded-full mr-2" style={{ backgroundColor: selectedVehicle.vehicle.color }} />
+                {selectedVehicle.vehicle.name}
+              </p>
+              <p className="text-xs text-gray-500">
+                {STATUS_LABELS[selectedVehicle.position.status]} · Updated {formatAge(now - selectedVehicle.position.updatedAt)}
+                {selectedVehicle.position.status === 'live' && selectedVehicle.position.speed !== null &&
+                  ` · ${Math.round(selectedVehicle.position.speed * 3.6)} km/h`}
+              </p>
+              <ul className="mt-1 text-xs text-gray-700">
+                {getVehicleOccupants(selectedVehicle.vehicle)
+                  .filter(uid => profiles[uid])
+                  .map(uid => (
+                    <li key={uid}>
+                      {profiles[uid].name}
+                      {uid === currentUserId && ' (You)'}
+                      {uid === selectedVehicle.vehicle.driverId && <span className="text-gray-500"> · driving</span>}
+                    </li>
+                  ))}
+              </ul>
+            </div>
+          </InfoWindow>
+        )}
       </GoogleMap>
+      {OFFLINE_TILE_URL && OFFLINE_TILE_ATTRIBUTION && (
+        <div className="absolute bottom-0 right-16 px-1 bg-white/75 text-[10px] text-gray-700">
+          {OFFLINE_TILE_ATTRIBUTION}
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,308 @@
+import React, { useState, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { GoogleMap, useJsApiLoader, Marker, Polyline } from '@react-google-maps/api';
+import { X, Upload, FileText } from 'lucide-react';
+import { useTrip } from '../contexts/TripContext';
+import { GOOGLE_MAPS_API_KEY } from '../config/maps';
+import { parseRouteFile, formatIssue, ImportError, ImportedRoute, ImportIssue, IMPORT_ACCEPT } from '../utils/tripImport';
+
+interface ImportTripModalProps {
+  onClose: () => void;
+}
+
+const containerStyle = {
+  width: '100%',
+  height: '100%'
+};
+
+const PIN_PATH = 'M12 2C8.13 2 5 5.13 5 9c0 5.25 7 13 7 13s7-7.75 7-13c0-3.87-3.13-7-7-7zm0 9.5c-1.38 0-2.5-1.12-2.5-2.5s1.12-2.5 2.5-2.5 2.5 1.12 2.5 2.5-1.12 2.5-2.5 2.5z';
+
+interface ImportPreviewMapProps {
+  route: ImportedRoute;
+  originIndex: number;
+  destinationIndex: number;
+}
+
+const ImportPreviewMap: React.FC<ImportPreviewMapProps> = ({ route, originIndex, destinationIndex }) => {
+  const { isLoaded } = useJsApiLoader({
+    id: 'google-map-script',
+    googleMapsApiKey: GOOGLE_MAPS_API_KEY
+  });
+
+  const onLoad = useCallback((map: google.maps.Map) => {
+    const bounds = new google.maps.LatLngBounds();
+    route.points.forEach(point => bounds.extend(point.location));
+    route.path.forEach(point => bounds.extend(point));
+    map.fitBounds(bounds);
+  }, [route]);
+
+  if (!isLoaded) {
+    return (
+      <div className="w-full h-full flex items-center justify-center bg-gray-100">
+        <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-blue-500"></div>
+      </div>
+    );
+  }
+
+  const colorFor = (index: number) =>
+    index === originIndex ? '#ef4444' : index === destinationIndex ? '#22c55e' : '#3b82f6';
+
+  return (
+    <GoogleMap
+      mapContainerStyle={containerStyle}
+      center={route.points[0].location}
+      zoom={8}
+      onLoad={onLoad}
+      options={{
+        fullscreenControl: false,
+        mapTypeControl: false,
+        streetViewControl: false
+      }}
+    >
+      {route.points.map((point, index) => (
+        <Marker
+          key={index}
+          position={point.location}
+          title={point.name}
+          icon={{
+            path: PIN_PATH,
+            fillColor: colorFor(index),
+            fillOpacity: 1,
+            strokeWeight: 1,
+            strokeColor: '#ffffff',
+            scale: 1.5,
+            anchor: new google.maps.Point(12, 22),
+          }}
+        />
+      ))}
+      <Polyline
+        path={route.path.length > 1 ? route.path : route.points.map(point => point.location)}
+        options={{
+          strokeColor: '#3b82f6',
+          strokeOpacity: 0.7,
+          strokeWeight: 3,
+        }}
+      />
+    </GoogleMap>
+  );
+};
+
+const ImportTripModal: React.FC<ImportTripModalProps> = ({ onClose }) => {
+  const { createTrip } = useTrip();
+  const navigate = useNavigate();
+
+  const [fileName, setFileName] = useState('');
+  const [route, setRoute] = useState<ImportedRoute | null>(null);
+  const [issues, setIssues] = useState<ImportIssue[]>([]);
+  const [tripName, setTripName] = useState('');
+  const [originIndex, setOriginIndex] = useState(0);
+  const [destinationIndex, setDestinationIndex] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setFileName(file.name);
+    setRoute(null);
+    setIssues([]);
+    setError('');
+
+    try {
+      const parsed = parseRouteFile(file.name, await file.text());
+      setRoute(parsed);
+      setTripName(parsed.name || file.name.replace(/\.[^.]+$/, ''));
+      setOriginIndex(0);
+      setDestinationIndex(parsed.points.length - 1);
+    } catch (err) {
+      if (err instanceof ImportError) {
+        setIssues(err.issues);
+      } else {
+        setError('Could not read that file.');
+        console.error(err);
+      }
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!route) return;
+
+    if (!tripName.trim()) {
+      setError('Please enter a trip name');
+      return;
+    }
+
+    if (originIndex === destinationIndex) {
+      setError('Origin and destination must be different points');
+      return;
+    }
+
+    setIsLoading(true);
+    setError('');
+
+    try {
+      const origin = route.points[originIndex];
+      const destination = route.points[destinationIndex];
+
+      const tripId = await createTrip({
+        name: tripName.trim(),
+        origin,
+        destination,
+        stops: route.points.filter((_, index) => index !== originIndex && index !== destinationIndex)
+      });
+
+      onClose();
+      navigate(`/trip/${tripId}`);
+    } catch (err) {
+      setError('Failed to create trip. Please try again.');
+      console.error(err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-3xl max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center p-6 border-b">
+          <h2 className="text-2xl font-bold text-gray-800">Import a Route</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-700"
+          >
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6">
+          {error && (
+            <div className="mb-6 p-4 bg-red-50 text-red-700 rounded-lg">
+              {error}
+            </div>
+          )}
+
+          <label className="flex flex-col items-center justify-center w-full p-6 mb-6 border-2 border-dashed border-gray-300 rounded-lg cursor-pointer hover:bg-gray-50">
+            {fileName ? (
+              <FileText className="h-8 w-8 text-gray-400 mb-2" />
+            ) : (
+              <Upload className="h-8 w-8 text-gray-400 mb-2" />
+            )}
+            <span className="text-sm font-medium text-gray-700">
+              {fileName || 'Choose a GPX, KML, GeoJSON or CSV file'}
+            </span>
+            <span className="text-xs text-gray-500 mt-1">CSV files use name,lat,lng columns</span>
+            <input
+              type="file"
+              accept={IMPORT_ACCEPT}
+              onChange={handleFileChange}
+              className="hidden"
+            />
+          </label>
+
+          {issues.length > 0 && (
+            <div className="mb-6 p-4 bg-red-50 text-red-700 rounded-lg">
+              <p className="font-medium mb-2">We couldn't import {fileName}:</p>
+              <ul className="list-disc list-inside space-y-1 text-sm">
+                {issues.slice(0, 10).map((issue, index) => (
+                  <li key={index}>{formatIssue(issue)}</li>
+                ))}
+              </ul>
+              {issues.length > 10 && (
+                <p className="text-sm mt-2">...and {issues.length - 10} more problems</p>
+              )}
+            </div>
+          )}
+
+          {route && (
+            <>
+              <div className="mb-6">
+                <label htmlFor="importTripName" className="block text-sm font-medium text-gray-700 mb-1">
+                  Trip Name
+                </label>
+                <input
+                  type="text"
+                  id="importTripName"
+                  value={tripName}
+                  onChange={(e) => setTripName(e.target.value)}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-black focus:border-black"
+                  required
+                />
+              </div>
+
+              <div className="h-64 rounded-lg overflow-hidden mb-6 border border-gray-200">
+                <ImportPreviewMap
+                  route={route}
+                  originIndex={originIndex}
+                  destinationIndex={destinationIndex}
+                />
+              </div>
+
+              <div className="mb-6">
+                <div className="grid grid-cols-[1fr_auto_auto] gap-x-4 items-center text-xs font-medium text-gray-500 mb-2">
+                  <span>{route.points.length} points</span>
+                  <span>Origin</span>
+                  <span>Destination</span>
+                </div>
+                <div className="max-h-60 overflow-y-auto divide-y divide-gray-100 border border-gray-100 rounded-lg">
+                  {route.points.map((point, index) => (
+                    <div key={index} className="grid grid-cols-[1fr_auto_auto] gap-x-4 items-center px-3 py-2">
+                      <div className="min-w-0">
+                        <p className="text-sm text-gray-800 truncate">{point.name}</p>
+                        <p className="text-xs text-gray-500">
+                          {point.location.lat.toFixed(5)}, {point.location.lng.toFixed(5)}
+                        </p>
+                      </div>
+                      <input
+                        type="radio"
+                        name="origin"
+                        checked={originIndex === index}
+                        onChange={() => setOriginIndex(index)}
+                        className="mx-3 text-red-500 focus:ring-red-500"
+                        aria-label={`Use ${point.name} as origin`}
+                      />
+                      <input
+                        type="radio"
+                        name="destination"
+                        checked={destinationIndex === index}
+                        onChange={() => setDestinationIndex(index)}
+                        className="mx-6 text-green-500 focus:ring-green-500"
+                        aria-label={`Use ${point.name} as destination`}
+                      />
+                    </div>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-500 mt-2">
+                  Every other point becomes a stop, in file order.
+                </p>
+              </div>
+            </>
+          )}
+
+          <div className="flex justify-end space-x-4 pt-4 border-t">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-6 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isLoading || !route}
+              className={`px-6 py-2 bg-black text-white rounded-lg hover:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-black ${
+                isLoading || !route ? 'opacity-70 cursor-not-allowed' : ''
+              }`}
+            >
+              {isLoading ? 'Creating...' : 'Create Trip'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default ImportTripModal;
@@ -0,0 +1,296 @@
+import React, { useState, useMemo } from 'react';
+import { AlertTriangle, Calendar, Pencil, Check, X } from 'lucide-react';
+import { Trip, useTrip } from '../contexts/TripContext';
+import { Route } from '../services/routing';
+import { computeTimeline, TimelineEntry, toDateTimeInputValue, fromDateTimeInputValue } from '../utils/schedule';
+import { formatDateRange, formatDuration, formatTime } from '../utils/format';
+import { DEFAULT_GEOFENCE_RADIUS_METERS, MIN_GEOFENCE_RADIUS_METERS, MAX_GEOFENCE_RADIUS_METERS } from '../utils/geofence';
+
+interface ItineraryProps {
+  trip: Trip;
+  route: Route | null;
+  // Viewers see the schedule without edit controls
+  readOnly?: boolean;
+}
+
+const MAX_DWELL_MINUTES = 7 * 24 * 60;
+
+const STATUS_STYLES: Record<TimelineEntry['status'], string> = {
+  unplanned: 'text-gray-500',
+  'on-time': 'text-green-700',
+  late: 'text-amber-700',
+  infeasible: 'text-red-600'
+};
+
+const describeStatus = (entry: TimelineEntry): string | null => {
+  if (entry.projectedArrival === null) return null;
+
+  if (entry.id === 'destination') {
+    return entry.status === 'infeasible' ? 'Arrives after the trip ends' : null;
+  }
+
+  const lateBy = entry.plannedArrival !== null ? entry.projectedArrival - entry.plannedArrival : 0;
+  switch (entry.status) {
+    case 'on-time':
+      return 'On time';
+    case 'late':
+      return `${formatDuration(lateBy / 1000)} late`;
+    case 'infeasible':
+      return 'Arrives after the planned departure';
+    default:
+      return null;
+  }
+};
+
+const Itinerary: React.FC<ItineraryProps> = ({ trip, route, readOnly = false }) => {
+  const { updateTripDates, updateStop } = useTrip();
+
+  const [editingDates, setEditingDates] = useState(false);
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [editingStopId, setEditingStopId] = useState<string | null>(null);
+  const [plannedArrival, setPlannedArrival] = useState('');
+  const [dwellMinutes, setDwellMinutes] = useState('');
+  const [arrivalRadius, setArrivalRadius] = useState('');
+
+  // Recomputed whenever the stops or the route through them change
+  const timeline = useMemo(() => computeTimeline(trip, route?.legs ?? null), [trip, route]);
+
+  const startEditingDates = () => {
+    setStartDate(toDateTimeInputValue(trip.startDate));
+    setEndDate(toDateTimeInputValue(trip.endDate));
+    setEditingDates(true);
+  };
+
+  const saveDates = async () => {
+    if (startDate && endDate && endDate < startDate) {
+      alert('The trip must end after it starts.');
+      return;
+    }
+    setEditingDates(false);
+
+    try {
+      await updateTripDates(trip.id, {
+        startDate: fromDateTimeInputValue(startDate),
+        endDate: fromDateTimeInputValue(endDate)
+      });
+    } catch (err) {
+      console.error('Error updating trip dates:', err);
+      alert('Failed to update the trip dates. Please try again.');
+    }
+  };
+
+  const startEditingStop = (stopId: string) => {
+    const stop = trip.stops.find(s => s.id === stopId);
+    setPlannedArrival(toDateTimeInputValue(stop?.plannedArrival));
+    setDwellMinutes(stop?.dwellMinutes ? String(stop.dwellMinutes) : '');
+    setArrivalRadius(stop?.arrivalRadius ? String(stop.arrivalRadius) : '');
+    setEditingStopId(stopId);
+  };
+
+  const saveStop = async () => {
+    const stopId = editingStopId;
+    setEditingStopId(null);
+    if (!stopId) return;
+
+    const dwell = Math.round(Number(dwellMinutes));
+    const radius = Math.round(Number(arrivalRadius));
+    try {
+      await updateStop(trip.id, stopId, {
+        plannedArrival: fromDateTimeInputValue(plannedArrival),
+        dwellMinutes: dwell > 0 ? Math.min(dwell, MAX_DWELL_MINUTES) : null,
+        arrivalRadius: radius > 0
+          ? Math.min(Math.max(radius, MIN_GEOFENCE_RADIUS_METERS), MAX_GEOFENCE_RADIUS_METERS)
+          : null
+      });
+    } catch (err) {
+      console.error('Error updating stop schedule:', err);
+      alert('Failed to update the stop. Please try again.');
+    }
+  };
+
+  const dateRange = formatDateRange(trip.startDate, trip.endDate);
+
+  return (
+    <div className="p-4">
+      <div className="mb-6">
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="text-sm font-medium text-gray-500">Dates</h3>
+          {!readOnly && !editingDates && (
+            <button
+              onClick={startEditingDates}
+              className="p-1 text-gray-400 hover:text-blue-600"
+              aria-label="Edit trip dates"
+            >
+              <Pencil className="h-4 w-4" />
+            </button>
+          )}
+        </div>
+
+        {editingDates ? (
+          <div className="space-y-2">
+            <label className="block text-xs text-gray-500">
+              Departs
+              <input
+                type="datetime-local"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+                className="mt-1 w-full px-2 py-1 text-sm border border-gray-300 rounded focus:ring-blue-500 focus:border-blue-500"
+              />
+            </label>
+            <label className="block text-xs text-gray-500">
+              Ends
+              <input
+                type="datetime-local"
+                value={endDate}
+                min={startDate || undefined}
+                onChange={(e) => setEndDate(e.target.value)}
+                className="mt-1 w-full px-2 py-1 text-sm border border-gray-300 rounded focus:ring-blue-500 focus:border-blue-500"
+              />
+            </label>
+            <div className="flex justify-end space-x-2">
+              <button
+                onClick={() => setEditingDates(false)}
+                className="px-3 py-1 text-sm text-gray-600 hover:text-gray-800"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={saveDates}
+                className="px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700"
+              >
+                Save
+              </button>
+            </div>
+          </div>
+        ) : (
+          <p className="flex items-center text-sm text-gray-800">
+            <Calendar className="h-4 w-4 mr-2 text-gray-500" />
+            {dateRange ?? <span className="text-gray-400">Dates not set</span>}
+          </p>
+        )}
+      </div>
+
+      {timeline.infeasible.length > 0 && (
+        <div className="mb-4 p-3 bg-red-50 text-red-700 rounded-lg text-sm flex items-start">
+          <AlertTriangle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+          <span>
+            This schedule can't be kept: {timeline.infeasible.map(entry => entry.name).join(', ')}.
+            Leave earlier, stay shorter or drop a stop.
+          </span>
+        </div>
+      )}
+
+      {!trip.startDate ? (
+        <p className="mb-4 text-xs text-gray-500">Set a departure time to see projected arrival times.</p>
+      ) : !route && (
+        <p className="mb-4 text-xs text-gray-500">Drive times are unavailable, so only planned times are shown.</p>
+      )}
+
+      <ol className="relative border-l border-gray-200 ml-2 space-y-5">
+        {timeline.entries.map(entry => {
+          const isStop = entry.id !== 'origin' && entry.id !== 'destination';
+          const status = describeStatus(entry);
+
+          return (
+            <li key={entry.id} className="ml-4">
+              <span
+                className={`absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border-2 border-white ${
+                  entry.status === 'infeasible' ? 'bg-red-500' : entry.status === 'late' ? 'bg-amber-500' : 'bg-blue-500'
+                }`}
+              />
+              <div className="flex items-start justify-between">
+                <p className="font-medium text-gray-800 min-w-0 truncate">{entry.name}</p>
+                {isStop && !readOnly && editingStopId !== entry.id && (
+                  <button
+                    onClick={() => startEditingStop(entry.id)}
+                    className="p-1 text-gray-400 hover:text-blue-600"
+                    aria-label={`Plan ${entry.name}`}
+                  >
+                    <Pencil className="h-3 w-3" />
+                  </button>
+                )}
+              </div>
+
+              {editingStopId === entry.id ? (
+                <div className="mt-1 space-y-2">
+                  <label className="block text-xs text-gray-500">
+                    Planned arrival
+                    <input
+                      type="datetime-local"
+                      value={plannedArrival}
+                      onChange={(e) => setPlannedArrival(e.target.value)}
+                      className="mt-1 w-full px-2 py-1 text-sm border border-gray-300 rounded focus:ring-blue-500 focus:border-blue-500"
+                    />
+                  </label>
+                  <label className="block text-xs text-gray-500">
+                    Stay (minutes)
+                    <input
+                      type="number"
+                      min={0}
+                      max={MAX_DWELL_MINUTES}
+                      step={5}
+                      value={dwellMinutes}
+                      onChange={(e) => setDwellMinutes(e.target.value)}
+                      className="mt-1 w-full px-2 py-1 text-sm border border-gray-300 rounded focus:ring-blue-500 focus:border-blue-500"
+                    />
+                  </label>
+                  <label className="block text-xs text-gray-500">
+                    Counts as arrived within (m)
+                    <input
+                      type="number"
+                      min={MIN_GEOFENCE_RADIUS_METERS}
+                      max={MAX_GEOFENCE_RADIUS_METERS}
+                      step={25}
+                      value={arrivalRadius}
+                      placeholder={String(DEFAULT_GEOFENCE_RADIUS_METERS)}
+                      onChange={(e) => setArrivalRadius(e.target.value)}
+                      className="mt-1 w-full px-2 py-1 text-sm border border-gray-300 rounded focus:ring-blue-500 focus:border-blue-500"
+                    />
+                  </label>
+                  <div className="flex justify-end">
+                    <button
+                      onClick={saveStop}
+                      className="p-1 text-gray-500 hover:text-green-600"
+                      aria-label="Save plan"
+                    >
+                      <Check className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => setEditingStopId(null)}
+                      className="p-1 text-gray-500 hover:text-gray-700"
+                      aria-label="Cancel"
+                    >
+                      <X className="h-4 w-4" />
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <div className="text-xs text-gray-500 space-y-0.5">
+                  {entry.id === 'origin' && entry.plannedDeparture !== null && (
+                    <p>Leave {formatTime(entry.plannedDeparture)}</p>
+                  )}
+                  {entry.projectedArrival !== null && (
+                    <p>Arrive ~{formatTime(entry.projectedArrival)}</p>
+                  )}
+                  {entry.plannedArrival !== null && (
+                    <p>Planned {formatTime(entry.plannedArrival)}</p>
+                  )}
+                  {entry.dwellMinutes > 0 && (
+                    <p>
+                      Stay {formatDuration(entry.dwellMinutes * 60)}
+                      {entry.projectedDeparture !== null && ` · leave ~${formatTime(entry.projectedDeparture)}`}
+                    </p>
+                  )}
+                  {status && <p className={STATUS_STYLES[entry.status]}>{status}</p>}
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+};
+
+export default Itinerary;
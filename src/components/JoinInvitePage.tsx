@@ -0,0 +1,175 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { Map, MapPin, Users } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { useTrip } from '../contexts/TripContext';
+import { getInvite, getInviteStatus, InviteError, Invite, INVITE_ERROR_MESSAGES } from '../services/invites';
+
+const JoinInvitePage: React.FC = () => {
+  const { code = '' } = useParams<{ code: string }>();
+  const { currentUser, login } = useAuth();
+  const { trips, joinTrip } = useTrip();
+  const navigate = useNavigate();
+
+  const [invite, setInvite] = useState<Invite | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isJoining, setIsJoining] = useState(false);
+  // Set while the login popup is open so the join completes once the user is known
+  const [pendingJoin, setPendingJoin] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+
+    setIsLoading(true);
+    setError('');
+
+    getInvite(code)
+      .then(result => {
+        if (cancelled) return;
+        setInvite(result);
+        if (!result) {
+          setError(INVITE_ERROR_MESSAGES.unknown);
+        } else {
+          const status = getInviteStatus(result);
+          if (status !== 'active') setError(INVITE_ERROR_MESSAGES[status]);
+        }
+      })
+      .catch(err => {
+        if (cancelled) return;
+        setError('Failed to load this invite. Please try again.');
+        console.error(err);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [code]);
+
+  const completeJoin = useCallback(async () => {
+    setIsJoining(true);
+    setError('');
+
+    try {
+      const tripId = await joinTrip(code);
+      navigate(`/trip/${tripId}`, { replace: true });
+    } catch (err) {
+      if (err instanceof InviteError) {
+        setError(INVITE_ERROR_MESSAGES[err.reason]);
+      } else {
+        setError('Failed to join trip. Please try again.');
+        console.error(err);
+      }
+      setIsJoining(false);
+    }
+  }, [code, joinTrip, navigate]);
+
+  // The flag makes this run once per login, however often completeJoin changes
+  useEffect(() => {
+    if (!pendingJoin || !currentUser) return;
+
+    setPendingJoin(false);
+    completeJoin();
+  }, [pendingJoin, currentUser, completeJoin]);
+
+  const handleJoin = async () => {
+    if (currentUser) {
+      completeJoin();
+      return;
+    }
+
+    setPendingJoin(true);
+    try {
+      await login();
+    } catch {
+      setPendingJoin(false);
+      setError('Login failed. Please try again.');
+    }
+  };
+
+  const alreadyJoined = !!invite && trips.some(trip => trip.id === invite.tripId);
+  const canJoin = !!invite && (alreadyJoined || getInviteStatus(invite) === 'active');
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex flex-col">
+      <header className="bg-white shadow-sm">
+        <div className="container mx-auto px-4 py-4 flex items-center">
+          <Map className="h-6 w-6 text-black mr-2" />
+          <span className="text-xl font-semibold text-black">MapSync</span>
+        </div>
+      </header>
+
+      <main className="flex-grow flex items-center justify-center p-4">
+        <div className="bg-white rounded-xl shadow-xl w-full max-w-md p-6">
+          {isLoading ? (
+            <div className="flex justify-center py-12">
+              <div className="animate-spin rounded-full h-10 w-10 border-t-2 border-b-2 border-blue-500"></div>
+            </div>
+          ) : (
+            <>
+              <div className="flex justify-center mb-6">
+                <div className="bg-purple-100 p-4 rounded-full">
+                  <Users className="h-10 w-10 text-purple-600" />
+                </div>
+              </div>
+
+              {invite && (
+                <div className="text-center mb-6">
+                  <p className="text-sm text-gray-500 mb-1">You're invited to join</p>
+                  <h1 className="text-2xl font-bold text-gray-800 mb-3">{invite.tripName}</h1>
+                  <div className="flex items-center justify-center text-gray-600 mb-2">
+                    <MapPin className="h-4 w-4 mr-1 flex-shrink-0" />
+                    <span className="truncate">{invite.originName} → {invite.destinationName}</span>
+                  </div>
+                  <div className="flex items-center justify-center text-sm text-gray-500">
+                    <Users className="h-4 w-4 mr-1" />
+                    <span>
+                      {invite.participantCount} {invite.participantCount === 1 ? 'traveler' : 'travelers'}
+                    </span>
+                  </div>
+                </div>
+              )}
+
+              {error && !alreadyJoined && (
+                <div className="mb-6 p-4 bg-red-50 text-red-700 rounded-lg">
+                  {error}
+                </div>
+              )}
+
+              {alreadyJoined ? (
+                <button
+                  onClick={() => invite && navigate(`/trip/${invite.tripId}`, { replace: true })}
+                  className="w-full px-6 py-3 bg-purple-600 text-white rounded-lg hover:bg-purple-700"
+                >
+                  You're already on this trip — open it
+                </button>
+              ) : canJoin ? (
+                <button
+                  onClick={handleJoin}
+                  disabled={isJoining || pendingJoin}
+                  className={`w-full px-6 py-3 bg-purple-600 text-white rounded-lg hover:bg-purple-700 focus:outline-none focus:ring-2 focus:ring-purple-500 ${
+                    isJoining || pendingJoin ? 'opacity-70 cursor-not-allowed' : ''
+                  }`}
+                >
+                  {isJoining ? 'Joining...' : currentUser ? 'Join Trip' : 'Login with Google to join'}
+                </button>
+              ) : (
+                <button
+                  onClick={() => navigate(currentUser ? '/home' : '/')}
+                  className="w-full px-6 py-3 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50"
+                >
+                  {currentUser ? 'Go to your trips' : 'Go to MapSync'}
+                </button>
+              )}
+            </>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default JoinInvitePage;
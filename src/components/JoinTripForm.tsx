@@ -2,6 +2,7 @@ import React, { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useTrip } from '../contexts/TripContext';
 import { X, Users } from 'lucide-react';
+import { InviteError, INVITE_ERROR_MESSAGES } from '../services/invites';
 
 interface JoinTripFormProps {
   onClose: () => void;
@@ -27,17 +28,17 @@ const JoinTripForm: React.FC<JoinTripFormProps> = ({ onClose }) => {
     setError('');
     
     try {
-      const success = await joinTrip(inviteCode);
+      const tripId = await joinTrip(inviteCode);
       
-      if (success) {
-        onClose();
-        navigate(`/trip/${inviteCode}`);
+      onClose();
+      navigate(`/trip/${tripId}`);
+    } catch (err) {
+      if (err instanceof InviteError) {
+        setError(INVITE_ERROR_MESSAGES[err.reason]);
       } else {
-        setError('Invalid invite code. Please check and try again.');
+        setError('Failed to join trip. Please try again.');
+        console.error(err);
       }
-    } catch (err) {
-      setError('Failed to join trip. Please try again.');
-      console.error(err);
     } finally {
       setIsLoading(false);
     }
@@ -83,7 +84,7 @@ const JoinTripForm: React.FC<JoinTripFormProps> = ({ onClose }) => {
               value={inviteCode}
               onChange={(e) => setInviteCode(e.target.value)}
               className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-purple-500 focus:border-purple-500"
-              placeholder="e.g., trip123"
+              placeholder="e.g., K7M2Q-X9PVB"
               required
             />
           </div>
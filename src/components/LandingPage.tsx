@@ -1,22 +1,27 @@
 import React from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useLocation, Location } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
 import { MapPin, Map, Users, Car } from 'lucide-react';
 
 const LandingPage: React.FC = () => {
   const { login, currentUser } = useAuth();
   const navigate = useNavigate();
+  const location = useLocation();
+
+  // Set by ProtectedRoute when a signed-out visitor opened a deep link
+  const from = (location.state as { from?: Location } | null)?.from;
+  const returnTo = from ? `${from.pathname}${from.search}${from.hash}` : '/home';
 
   const handleLogin = async () => {
     await login();
-    navigate('/home');
+    navigate(returnTo, { replace: true });
   };
 
   React.useEffect(() => {
     if (currentUser) {
-      navigate('/home');
+      navigate(returnTo, { replace: true });
     }
-  }, [currentUser, navigate]);
+  }, [currentUser, navigate, returnTo]);
 
   return (
     <div className="min-h-screen bg-white">
@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { useNotificationPreferences } from '../hooks/useNotificationPreferences';
+import {
+  NOTIFICATION_EVENT_LABELS,
+  NotificationEvent,
+  NotificationPreferences,
+  notificationsSupported,
+  requestNotificationPermission,
+  saveNotificationPreferences,
+  subscribeToPush,
+  deliverLocalPush
+} from '../services/notifications';
+
+// Dropdown from the trip header; the choices apply to every trip and device
+const NotificationSettings: React.FC = () => {
+  const { currentUser } = useAuth();
+  const preferences = useNotificationPreferences();
+  const [permission, setPermission] = useState<NotificationPermission>(
+    notificationsSupported() ? Notification.permission : 'denied'
+  );
+
+  const save = async (next: NotificationPreferences) => {
+    if (!currentUser) return;
+    try {
+      await saveNotificationPreferences(currentUser.uid, next);
+    } catch (err) {
+      console.error('Error saving notification preferences:', err);
+      alert('Failed to save your notification settings. Please try again.');
+    }
+  };
+
+  const handleToggle = async () => {
+    if (preferences.enabled) {
+      save({ ...preferences, enabled: false });
+      return;
+    }
+
+    const result = await requestNotificationPermission();
+    setPermission(result);
+    if (result !== 'granted' || !currentUser) return;
+
+    await save({ ...preferences, enabled: true });
+    subscribeToPush(currentUser.uid).catch(err => {
+      console.error('Error subscribing to push:', err);
+    });
+  };
+
+  const handleEventToggle = (event: NotificationEvent) =>
+    save({ ...preferences, events: { ...preferences.events, [event]: !preferences.events[event] } });
+
+  const sendTest = () =>
+    deliverLocalPush({
+      title: 'MapSync',
+      body: 'Notifications are working.',
+      tag: 'test',
+      url: window.location.pathname
+    }).catch(err => {
+      console.error('Error showing test notification:', err);
+    });
+
+  const enabled = preferences.enabled && permission === 'granted';
+
+  return (
+    <div className="absolute right-0 mt-2 w-72 bg-white rounded-md shadow-lg py-1 z-10">
+      <div className="px-4 py-3 border-b">
+        <p className="text-sm font-medium text-gray-700">Notifications</p>
+        <p className="text-xs text-gray-500">
+          {!notificationsSupported()
+            ? 'This browser doesn\'t support notifications.'
+            : permission === 'denied'
+              ? 'Notifications are blocked for this site. Allow them in your browser settings.'
+              : 'Shown when MapSync is in the background.'}
+        </p>
+      </div>
+
+      {notificationsSupported() && permission !== 'denied' && (
+        <div className="px-4 py-3 space-y-2">
+          <label className="flex items-center text-sm text-gray-700">
+            <input type="checkbox" checked={enabled} onChange={handleToggle} className="mr-2" />
+            Notify me on this trip and others
+          </label>
+
+          <div className="pl-5 space-y-1">
+            {(Object.keys(NOTIFICATION_EVENT_LABELS) as NotificationEvent[]).map(event => (
+              <label key={event} className={`flex items-center text-sm ${enabled ? 'text-gray-600' : 'text-gray-400'}`}>
+                <input
+                  type="checkbox"
+                  checked={preferences.events[event]}
+                  onChange={() => handleEventToggle(event)}
+                  disabled={!enabled}
+                  className="mr-2"
+                />
+                {NOTIFICATION_EVENT_LABELS[event]}
+              </label>
+            ))}
+          </div>
+
+          {enabled && (
+            <button onClick={sendTest} className="text-xs font-medium text-blue-600 hover:text-blue-700">
+              Send a test notification
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NotificationSettings;
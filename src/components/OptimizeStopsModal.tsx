@@ -0,0 +1,167 @@
+import React, { useState, useMemo } from 'react';
+import { X, Pin, PinOff, Route } from 'lucide-react';
+import { Trip, useTrip } from '../contexts/TripContext';
+import { optimizeStopOrder } from '../utils/routeOptimizer';
+import { formatDistance } from '../utils/format';
+
+interface OptimizeStopsModalProps {
+  trip: Trip;
+  onClose: () => void;
+}
+
+const OptimizeStopsModal: React.FC<OptimizeStopsModalProps> = ({ trip, onClose }) => {
+  const { reorderStops } = useTrip();
+
+  const [pinnedStopIds, setPinnedStopIds] = useState<Set<string>>(new Set());
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const result = useMemo(
+    () => optimizeStopOrder({
+      origin: trip.origin.location,
+      destination: trip.destination.location,
+      stops: trip.stops,
+      pinnedStopIds
+    }),
+    [trip, pinnedStopIds]
+  );
+
+  const savings = result.originalDistance - result.optimizedDistance;
+  const isUnchanged = result.stops.every((stop, index) => stop.id === trip.stops[index].id);
+
+  const togglePin = (stopId: string) => {
+    setPinnedStopIds(current => {
+      const next = new Set(current);
+      if (next.has(stopId)) {
+        next.delete(stopId);
+      } else {
+        next.add(stopId);
+      }
+      return next;
+    });
+  };
+
+  const handleAccept = async () => {
+    setIsLoading(true);
+    setError('');
+
+    try {
+      const success = await reorderStops(trip.id, result.stops.map(stop => stop.id));
+
+      if (success) {
+        onClose();
+      } else {
+        setError('The stops changed while you were optimizing. Please try again.');
+      }
+    } catch (err) {
+      setError('Failed to save the new order. Please try again.');
+      console.error(err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center p-6 border-b">
+          <h2 className="text-2xl font-bold text-gray-800">Optimize Stop Order</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-700"
+          >
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        <div className="p-6">
+          {error && (
+            <div className="mb-6 p-4 bg-red-50 text-red-700 rounded-lg">
+              {error}
+            </div>
+          )}
+
+          <div className="grid grid-cols-3 gap-4 mb-6 text-center">
+            <div className="bg-gray-50 rounded-lg p-4">
+              <p className="text-xs text-gray-500 mb-1">Current</p>
+              <p className="text-lg font-semibold text-gray-800">{formatDistance(result.originalDistance)}</p>
+            </div>
+            <div className="bg-gray-50 rounded-lg p-4">
+              <p className="text-xs text-gray-500 mb-1">Optimized</p>
+              <p className="text-lg font-semibold text-gray-800">{formatDistance(result.optimizedDistance)}</p>
+            </div>
+            <div className={`rounded-lg p-4 ${savings > 0 ? 'bg-green-50' : 'bg-gray-50'}`}>
+              <p className="text-xs text-gray-500 mb-1">Saved</p>
+              <p className={`text-lg font-semibold ${savings > 0 ? 'text-green-700' : 'text-gray-800'}`}>
+                {formatDistance(savings)}
+              </p>
+            </div>
+          </div>
+
+          <p className="text-xs text-gray-500 mb-4">
+            Straight-line distances. Pin a stop to keep it at its current position.
+          </p>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div>
+              <h3 className="text-sm font-medium text-gray-500 mb-2">Current order</h3>
+              <ol className="space-y-2">
+                {trip.stops.map((stop, index) => (
+                  <li key={stop.id} className="flex items-center">
+                    <span className="w-6 text-xs font-bold text-blue-600">{index + 1}</span>
+                    <span className="flex-grow truncate text-gray-800">{stop.name}</span>
+                    <button
+                      type="button"
+                      onClick={() => togglePin(stop.id)}
+                      className={`p-1 rounded ${pinnedStopIds.has(stop.id) ? 'text-blue-600' : 'text-gray-300 hover:text-gray-500'}`}
+                      aria-label={pinnedStopIds.has(stop.id) ? `Unpin ${stop.name}` : `Pin ${stop.name}`}
+                    >
+                      {pinnedStopIds.has(stop.id) ? <Pin className="h-4 w-4" /> : <PinOff className="h-4 w-4" />}
+                    </button>
+                  </li>
+                ))}
+              </ol>
+            </div>
+
+            <div>
+              <h3 className="text-sm font-medium text-gray-500 mb-2">Suggested order</h3>
+              <ol className="space-y-2">
+                {result.stops.map((stop, index) => (
+                  <li key={stop.id} className="flex items-center py-1">
+                    <span className="w-6 text-xs font-bold text-green-600">{index + 1}</span>
+                    <span className={`truncate ${stop.id !== trip.stops[index].id ? 'font-medium text-gray-900' : 'text-gray-500'}`}>
+                      {stop.name}
+                    </span>
+                  </li>
+                ))}
+              </ol>
+            </div>
+          </div>
+
+          <div className="flex justify-end space-x-4 pt-4 mt-6 border-t">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-6 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50"
+            >
+              Discard
+            </button>
+            <button
+              type="button"
+              onClick={handleAccept}
+              disabled={isLoading || isUnchanged}
+              className={`flex items-center px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                isLoading || isUnchanged ? 'opacity-70 cursor-not-allowed' : ''
+              }`}
+            >
+              <Route className="h-4 w-4 mr-2" />
+              {isLoading ? 'Saving...' : isUnchanged ? 'Already optimal' : 'Use this order'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default OptimizeStopsModal;
@@ -0,0 +1,196 @@
+import React, { useState, useEffect, useRef, useId } from 'react';
+import { MapPin } from 'lucide-react';
+import { GeocodingResult } from '../services/geocoding';
+import { placesProvider, PlacesProvider, PlaceSuggestion } from '../services/places';
+
+interface PlaceAutocompleteProps {
+  id?: string;
+  value: string;
+  onChange: (value: string) => void;
+  onSelect: (place: GeocodingResult) => void;
+  placeholder?: string;
+  required?: boolean;
+  className?: string;
+  inputClassName?: string;
+  near?: { lat: number; lng: number } | null;
+  provider?: PlacesProvider;
+}
+
+const DEBOUNCE_MS = 300;
+const MIN_QUERY_LENGTH = 2;
+
+const PlaceAutocomplete: React.FC<PlaceAutocompleteProps> = ({
+  id,
+  value,
+  onChange,
+  onSelect,
+  placeholder,
+  required,
+  className = '',
+  inputClassName = '',
+  near,
+  provider = placesProvider
+}) => {
+  const listboxId = useId();
+  const [query, setQuery] = useState('');
+  const [suggestions, setSuggestions] = useState<PlaceSuggestion[]>([]);
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+  const resolveController = useRef<AbortController | null>(null);
+
+  const nearLat = near?.lat;
+  const nearLng = near?.lng;
+
+  // Debounced lookup; a newer keystroke aborts the request still in flight
+  useEffect(() => {
+    const input = query.trim();
+    if (input.length < MIN_QUERY_LENGTH) {
+      setSuggestions([]);
+      setIsLoading(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timer = window.setTimeout(async () => {
+      setIsLoading(true);
+      try {
+        const results = await provider.suggest(input, {
+          signal: controller.signal,
+          near: nearLat !== undefined && nearLng !== undefined ? { lat: nearLat, lng: nearLng } : undefined
+        });
+        setSuggestions(results);
+        setActiveIndex(-1);
+        setIsOpen(true);
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        console.error('Error fetching place suggestions:', err);
+        setSuggestions([]);
+      } finally {
+        if (!controller.signal.aborted) setIsLoading(false);
+      }
+    }, DEBOUNCE_MS);
+
+    return () => {
+      window.clearTimeout(timer);
+      controller.abort();
+    };
+  }, [query, provider, nearLat, nearLng]);
+
+  useEffect(() => {
+    return () => resolveController.current?.abort();
+  }, []);
+
+  const selectSuggestion = async (suggestion: PlaceSuggestion) => {
+    setIsOpen(false);
+    setQuery('');
+    setError('');
+    onChange(suggestion.primaryText);
+
+    resolveController.current?.abort();
+    const controller = new AbortController();
+    resolveController.current = controller;
+
+    try {
+      const place = await provider.resolve(suggestion, { signal: controller.signal });
+      onSelect(place);
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      console.error('Error resolving place:', err);
+      setError('Could not load that place. Please pick another result.');
+    }
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    onChange(e.target.value);
+    setQuery(e.target.value);
+    setError('');
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!isOpen || suggestions.length === 0) return;
+
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        setActiveIndex(index => (index + 1) % suggestions.length);
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        setActiveIndex(index => (index <= 0 ? suggestions.length - 1 : index - 1));
+        break;
+      case 'Enter':
+        // Keep Enter from submitting the surrounding form while choosing
+        if (activeIndex >= 0) {
+          e.preventDefault();
+          selectSuggestion(suggestions[activeIndex]);
+        }
+        break;
+      case 'Escape':
+        e.preventDefault();
+        setIsOpen(false);
+        break;
+    }
+  };
+
+  return (
+    <div className={`relative ${className}`}>
+      <input
+        type="text"
+        id={id}
+        value={value}
+        onChange={handleChange}
+        onKeyDown={handleKeyDown}
+        onFocus={() => suggestions.length > 0 && setIsOpen(true)}
+        onBlur={() => setIsOpen(false)}
+        className={inputClassName}
+        placeholder={placeholder}
+        required={required}
+        autoComplete="off"
+        role="combobox"
+        aria-autocomplete="list"
+        aria-expanded={isOpen && suggestions.length > 0}
+        aria-controls={listboxId}
+        aria-activedescendant={activeIndex >= 0 ? `${listboxId}-${activeIndex}` : undefined}
+      />
+      {isLoading && (
+        <div className="absolute right-3 top-1/2 -translate-y-1/2 animate-spin rounded-full h-4 w-4 border-t-2 border-b-2 border-gray-400"></div>
+      )}
+      {isOpen && suggestions.length > 0 && (
+        <ul
+          id={listboxId}
+          role="listbox"
+          className="absolute z-10 w-full mt-1 bg-white border border-gray-200 rounded-lg shadow-lg overflow-hidden"
+        >
+          {suggestions.map((suggestion, index) => (
+            <li
+              key={suggestion.placeId}
+              id={`${listboxId}-${index}`}
+              role="option"
+              aria-selected={index === activeIndex}
+              // mousedown fires before the input's blur closes the list
+              onMouseDown={(e) => {
+                e.preventDefault();
+                selectSuggestion(suggestion);
+              }}
+              onMouseEnter={() => setActiveIndex(index)}
+              className={`flex items-start px-4 py-2 cursor-pointer ${index === activeIndex ? 'bg-gray-100' : ''}`}
+            >
+              <MapPin className="h-4 w-4 text-gray-400 mr-2 mt-1 flex-shrink-0" />
+              <span>
+                <span className="block text-sm font-medium text-gray-800">{suggestion.primaryText}</span>
+                {suggestion.secondaryText && (
+                  <span className="block text-xs text-gray-500">{suggestion.secondaryText}</span>
+                )}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+      {error && <p className="mt-1 text-xs text-red-600">{error}</p>}
+    </div>
+  );
+};
+
+export default PlaceAutocomplete;
@@ -0,0 +1,37 @@
+import React from 'react';
+import { MapPin } from 'lucide-react';
+import { GeocodingResult } from '../services/geocoding';
+
+interface PlaceMatchListProps {
+  query: string;
+  matches: GeocodingResult[];
+  onSelect: (match: GeocodingResult) => void;
+}
+
+const PlaceMatchList: React.FC<PlaceMatchListProps> = ({ query, matches, onSelect }) => {
+  return (
+    <div className="mt-2 border border-amber-200 bg-amber-50 rounded-lg overflow-hidden">
+      <p className="px-4 py-2 text-sm text-amber-800">
+        Several places match "{query}". Which one did you mean?
+      </p>
+      <div className="bg-white divide-y divide-gray-100">
+        {matches.map((match, index) => (
+          <button
+            key={match.placeId || index}
+            type="button"
+            onClick={() => onSelect(match)}
+            className="flex items-start w-full px-4 py-2 text-left hover:bg-gray-50 focus:outline-none focus:bg-gray-50"
+          >
+            <MapPin className="h-4 w-4 text-gray-400 mr-2 mt-1 flex-shrink-0" />
+            <span>
+              <span className="block text-sm font-medium text-gray-800">{match.name}</span>
+              <span className="block text-xs text-gray-500">{match.formattedAddress}</span>
+            </span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default PlaceMatchList;
@@ -0,0 +1,63 @@
+import React from 'react';
+import { Clock, Route as RouteIcon } from 'lucide-react';
+import { Trip } from '../contexts/TripContext';
+import { Route } from '../services/routing';
+import { formatDistance, formatDuration } from '../utils/format';
+
+interface RouteSummaryProps {
+  trip: Trip;
+  route: Route | null;
+  loading: boolean;
+  error: string | null;
+}
+
+const RouteSummary: React.FC<RouteSummaryProps> = ({ trip, route, loading, error }) => {
+  const names = [trip.origin.name, ...trip.stops.map(stop => stop.name), trip.destination.name];
+
+  return (
+    <div className="p-4 border-t border-gray-200">
+      <h3 className="text-sm font-medium text-gray-500 mb-2">Route</h3>
+
+      {loading && (
+        <div className="flex items-center text-sm text-gray-500">
+          <div className="animate-spin rounded-full h-4 w-4 border-t-2 border-b-2 border-blue-500 mr-2"></div>
+          Calculating driving route...
+        </div>
+      )}
+
+      {error && !loading && (
+        <p className="text-sm text-amber-700">{error}</p>
+      )}
+
+      {route && !loading && (
+        <>
+          <div className="space-y-2 mb-4">
+            {route.legs.map((leg, index) => (
+              <div key={index} className="text-sm">
+                <p className="text-gray-700 truncate">
+                  {names[index]} → {names[index + 1]}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {formatDistance(leg.distance)} · {formatDuration(leg.duration)}
+                </p>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex items-center justify-between bg-gray-50 rounded-lg px-3 py-2 text-sm font-medium text-gray-800">
+            <span className="flex items-center">
+              <RouteIcon className="h-4 w-4 mr-1 text-gray-500" />
+              {formatDistance(route.distance)}
+            </span>
+            <span className="flex items-center">
+              <Clock className="h-4 w-4 mr-1 text-gray-500" />
+              {formatDuration(route.duration)}
+            </span>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default RouteSummary;
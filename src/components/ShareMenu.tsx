@@ -0,0 +1,184 @@
+import React, { useState } from 'react';
+import { Copy, Link, Ban } from 'lucide-react';
+import { Trip } from '../contexts/TripContext';
+import { useAuth } from '../contexts/AuthContext';
+import { useTripInvites } from '../hooks/useTripInvites';
+import { canEditTrip, isTripOwner } from '../utils/tripRoles';
+import { createInvite, revokeInvite, formatInviteCode, getInviteLink, getInviteStatus, Invite } from '../services/invites';
+
+interface ShareMenuProps {
+  trip: Trip;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const EXPIRY_OPTIONS = [
+  { label: 'Never expires', value: 0 },
+  { label: 'Expires in 1 hour', value: HOUR_MS },
+  { label: 'Expires in 1 day', value: 24 * HOUR_MS },
+  { label: 'Expires in 7 days', value: 7 * 24 * HOUR_MS }
+];
+
+const MAX_USE_OPTIONS = [
+  { label: 'Unlimited uses', value: 0 },
+  { label: '1 use', value: 1 },
+  { label: '5 uses', value: 5 },
+  { label: '10 uses', value: 10 }
+];
+
+const describeInvite = (invite: Invite) => {
+  const parts = [invite.maxUses ? `${invite.uses}/${invite.maxUses} uses` : `${invite.uses} uses`];
+
+  if (invite.expiresAt) {
+    const hours = Math.max(1, Math.round((invite.expiresAt - Date.now()) / HOUR_MS));
+    parts.push(hours < 48 ? `expires in ${hours} h` : `expires in ${Math.round(hours / 24)} days`);
+  }
+
+  return parts.join(' · ');
+};
+
+const ShareMenu: React.FC<ShareMenuProps> = ({ trip }) => {
+  const { currentUser } = useAuth();
+  const invites = useTripInvites(trip.id);
+
+  const [expiresInMs, setExpiresInMs] = useState(7 * 24 * HOUR_MS);
+  const [maxUses, setMaxUses] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const isOwner = isTripOwner(trip, currentUser?.uid);
+  const canInvite = canEditTrip(trip, currentUser?.uid);
+  const activeInvites = invites.filter(invite => getInviteStatus(invite) === 'active');
+
+  const copyInviteCode = (code: string) => {
+    navigator.clipboard.writeText(formatInviteCode(code));
+    // Show toast notification (simplified)
+    alert('Invite code copied to clipboard!');
+  };
+
+  const copyInviteLink = (code: string) => {
+    navigator.clipboard.writeText(getInviteLink(code));
+    alert('Invite link copied to clipboard!');
+  };
+
+  const handleCreate = async () => {
+    if (!currentUser) return;
+
+    setIsLoading(true);
+    setError('');
+
+    try {
+      const invite = await createInvite(trip, currentUser.uid, { expiresInMs, maxUses });
+      copyInviteLink(invite.code);
+    } catch (err) {
+      setError('Failed to create invite. Please try again.');
+      console.error(err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRevoke = async (code: string) => {
+    if (!window.confirm(`Revoke invite ${formatInviteCode(code)}? Anyone holding it will no longer be able to join.`)) return;
+
+    try {
+      await revokeInvite(code);
+    } catch (err) {
+      setError('Failed to revoke invite. Please try again.');
+      console.error(err);
+    }
+  };
+
+  return (
+    <div className="absolute right-0 mt-2 w-80 bg-white rounded-md shadow-lg py-1 z-10">
+      <div className="px-4 py-3 border-b">
+        <p className="text-sm font-medium text-gray-700">Share this trip</p>
+        <p className="text-xs text-gray-500">Invite codes can expire or be limited to a number of uses</p>
+      </div>
+
+      {canInvite ? (
+        <div className="px-4 py-3 border-b space-y-2">
+          {error && <p className="text-xs text-red-600">{error}</p>}
+          <div className="flex space-x-2">
+            <select
+              value={expiresInMs}
+              onChange={(e) => setExpiresInMs(Number(e.target.value))}
+              className="flex-1 min-w-0 px-2 py-1 text-xs border border-gray-300 rounded"
+              aria-label="Invite expiry"
+            >
+              {EXPIRY_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+            <select
+              value={maxUses}
+              onChange={(e) => setMaxUses(Number(e.target.value))}
+              className="flex-1 min-w-0 px-2 py-1 text-xs border border-gray-300 rounded"
+              aria-label="Invite use limit"
+            >
+              {MAX_USE_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+          <button
+            onClick={handleCreate}
+            disabled={isLoading}
+            className={`w-full px-3 py-2 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 ${
+              isLoading ? 'opacity-70 cursor-not-allowed' : ''
+            }`}
+          >
+            {isLoading ? 'Creating...' : 'Create & copy invite link'}
+          </button>
+        </div>
+      ) : (
+        <div className="px-4 py-3 border-b">
+          <p className="text-xs text-gray-500">Viewers can share existing invites but not create new ones</p>
+        </div>
+      )}
+
+      <div className="px-4 py-3">
+        <p className="text-xs font-medium text-gray-500 mb-2">Active invites</p>
+        {activeInvites.length === 0 ? (
+          <p className="text-xs text-gray-400">No active invites</p>
+        ) : (
+          <div className="space-y-2 max-h-48 overflow-y-auto">
+            {activeInvites.map(invite => (
+              <div key={invite.code} className="flex items-center">
+                <div className="flex-grow min-w-0">
+                  <p className="font-mono text-sm text-gray-800">{formatInviteCode(invite.code)}</p>
+                  <p className="text-xs text-gray-500">{describeInvite(invite)}</p>
+                </div>
+                <button
+                  onClick={() => copyInviteCode(invite.code)}
+                  className="p-1 text-gray-400 hover:text-blue-600"
+                  aria-label="Copy invite code"
+                >
+                  <Copy className="h-4 w-4" />
+                </button>
+                <button
+                  onClick={() => copyInviteLink(invite.code)}
+                  className="p-1 text-gray-400 hover:text-blue-600"
+                  aria-label="Copy invite link"
+                >
+                  <Link className="h-4 w-4" />
+                </button>
+                {isOwner && (
+                  <button
+                    onClick={() => handleRevoke(invite.code)}
+                    className="p-1 text-gray-400 hover:text-red-600"
+                    aria-label="Revoke invite"
+                  >
+                    <Ban className="h-4 w-4" />
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ShareMenu;
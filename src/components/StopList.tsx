@@ -0,0 +1,167 @@
+import React, { useState } from 'react';
+import { GripVertical, Pencil, Trash2, Check, X } from 'lucide-react';
+import { Trip, useTrip } from '../contexts/TripContext';
+
+interface StopListProps {
+  trip: Trip;
+  // Viewers see the stops without drag handles or edit controls
+  readOnly?: boolean;
+}
+
+const moveItem = <T,>(items: T[], from: number, to: number): T[] => {
+  const result = [...items];
+  const [item] = result.splice(from, 1);
+  result.splice(to, 0, item);
+  return result;
+};
+
+const StopList: React.FC<StopListProps> = ({ trip, readOnly = false }) => {
+  const { updateStop, removeStop, reorderStops } = useTrip();
+
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [overIndex, setOverIndex] = useState<number | null>(null);
+  const [editingStopId, setEditingStopId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+
+  const handleDrop = async (index: number) => {
+    const from = dragIndex;
+    setDragIndex(null);
+    setOverIndex(null);
+
+    if (from === null || from === index) return;
+
+    const stopIds = moveItem(trip.stops, from, index).map(stop => stop.id);
+    try {
+      await reorderStops(trip.id, stopIds);
+    } catch (err) {
+      console.error('Error reordering stops:', err);
+      alert('Failed to reorder stops. Please try again.');
+    }
+  };
+
+  const startEditing = (stopId: string, name: string) => {
+    setEditingStopId(stopId);
+    setEditingName(name);
+  };
+
+  const saveName = async () => {
+    const stopId = editingStopId;
+    const name = editingName.trim();
+    setEditingStopId(null);
+
+    const stop = trip.stops.find(s => s.id === stopId);
+    if (!stopId || !stop || !name || name === stop.name) return;
+
+    try {
+      await updateStop(trip.id, stopId, { name });
+    } catch (err) {
+      console.error('Error renaming stop:', err);
+      alert('Failed to rename stop. Please try again.');
+    }
+  };
+
+  const handleRemove = async (stopId: string, name: string) => {
+    if (!window.confirm(`Remove ${name} from this trip?`)) return;
+
+    try {
+      await removeStop(trip.id, stopId);
+    } catch (err) {
+      console.error('Error removing stop:', err);
+      alert('Failed to remove stop. Please try again.');
+    }
+  };
+
+  return (
+    <div className="space-y-1">
+      {trip.stops.map((stop, index) => (
+        <div
+          key={stop.id}
+          draggable={!readOnly && editingStopId !== stop.id}
+          onDragStart={(e) => {
+            e.dataTransfer.effectAllowed = 'move';
+            setDragIndex(index);
+          }}
+          onDragOver={(e) => {
+            e.preventDefault();
+            setOverIndex(index);
+          }}
+          onDragLeave={() => setOverIndex(current => (current === index ? null : current))}
+          onDrop={(e) => {
+            e.preventDefault();
+            handleDrop(index);
+          }}
+          onDragEnd={() => {
+            setDragIndex(null);
+            setOverIndex(null);
+          }}
+          className={`group flex items-center rounded-lg py-1 pr-1 border-2 ${
+            overIndex === index && dragIndex !== null && dragIndex !== index
+              ? 'border-blue-300 bg-blue-50'
+              : 'border-transparent'
+          } ${dragIndex === index ? 'opacity-50' : ''}`}
+        >
+          {!readOnly && <GripVertical className="h-4 w-4 text-gray-300 mr-1 cursor-grab flex-shrink-0" />}
+          <div className="bg-blue-100 p-1 rounded-full mr-3">
+            <span className="block h-4 w-4 text-xs font-bold text-blue-600 text-center">
+              {index + 1}
+            </span>
+          </div>
+
+          {editingStopId === stop.id ? (
+            <div className="flex items-center flex-grow min-w-0">
+              <input
+                type="text"
+                value={editingName}
+                onChange={(e) => setEditingName(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') saveName();
+                  if (e.key === 'Escape') setEditingStopId(null);
+                }}
+                className="flex-grow min-w-0 px-2 py-1 text-sm border border-gray-300 rounded focus:ring-blue-500 focus:border-blue-500"
+                autoFocus
+              />
+              <button
+                onClick={saveName}
+                className="p-1 text-gray-500 hover:text-green-600"
+                aria-label="Save name"
+              >
+                <Check className="h-4 w-4" />
+              </button>
+              <button
+                onClick={() => setEditingStopId(null)}
+                className="p-1 text-gray-500 hover:text-gray-700"
+                aria-label="Cancel rename"
+              >
+                <X className="h-4 w-4" />
+              </button>
+            </div>
+          ) : (
+            <>
+              <p className="font-medium text-gray-800 flex-grow min-w-0 truncate">{stop.name}</p>
+              {!readOnly && (
+                <div className="flex items-center opacity-0 group-hover:opacity-100 focus-within:opacity-100">
+                  <button
+                    onClick={() => startEditing(stop.id, stop.name)}
+                    className="p-1 text-gray-400 hover:text-blue-600"
+                    aria-label={`Rename ${stop.name}`}
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </button>
+                  <button
+                    onClick={() => handleRemove(stop.id, stop.name)}
+                    className="p-1 text-gray-400 hover:text-red-600"
+                    aria-label={`Remove ${stop.name}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default StopList;
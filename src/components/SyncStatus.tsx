@@ -0,0 +1,37 @@
+import React from 'react';
+import { CloudOff, RefreshCw } from 'lucide-react';
+import { useOnlineStatus } from '../hooks/useOnlineStatus';
+import { useTripSyncState } from '../hooks/useTripSyncState';
+
+interface SyncStatusProps {
+  tripId: string;
+}
+
+// Shows when changes are being kept locally; renders nothing when everything is synced
+const SyncStatus: React.FC<SyncStatusProps> = ({ tripId }) => {
+  const online = useOnlineStatus();
+  const hasPendingWrites = useTripSyncState(tripId);
+
+  if (!online) {
+    return (
+      <span
+        className="inline-flex items-center px-2 py-0.5 rounded-full bg-amber-100 text-amber-800 text-xs font-medium"
+        title={hasPendingWrites ? 'Your changes will sync when you reconnect' : 'Showing the last synced copy of this trip'}
+      >
+        <CloudOff className="h-3 w-3 mr-1" />
+        {hasPendingWrites ? 'Offline · changes pending' : 'Offline'}
+      </span>
+    );
+  }
+
+  if (!hasPendingWrites) return null;
+
+  return (
+    <span className="inline-flex items-center px-2 py-0.5 rounded-full bg-blue-100 text-blue-800 text-xs font-medium">
+      <RefreshCw className="h-3 w-3 mr-1 animate-spin" />
+      Syncing…
+    </span>
+  );
+};
+
+export default SyncStatus;
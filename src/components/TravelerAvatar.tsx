@@ -0,0 +1,28 @@
+import React from 'react';
+import { TravelerProfile } from '../services/profiles';
+
+interface TravelerAvatarProps {
+  profile: TravelerProfile;
+  className?: string;
+}
+
+// Photo when the traveler has one, otherwise their initial on their marker colour
+const TravelerAvatar: React.FC<TravelerAvatarProps> = ({ profile, className = 'w-8 h-8' }) => (
+  <div
+    className={`${className} rounded-full overflow-hidden flex-shrink-0 flex items-center justify-center border-2`}
+    style={{ borderColor: profile.color, backgroundColor: profile.color }}
+    title={profile.name}
+  >
+    {profile.photoURL ? (
+      <img
+        src={profile.photoURL}
+        alt={profile.name}
+        className="w-full h-full object-cover"
+      />
+    ) : (
+      <span className="text-xs font-semibold text-white">{profile.name.charAt(0).toUpperCase()}</span>
+    )}
+  </div>
+);
+
+export default TravelerAvatar;
@@ -0,0 +1,197 @@
+import React, { useState } from 'react';
+import { Crown, UserMinus, Pencil, Check, X } from 'lucide-react';
+import { Trip, TripRole, useTrip } from '../contexts/TripContext';
+import { useAuth } from '../contexts/AuthContext';
+import { getTripRole, isTripOwner, ROLE_LABELS, TripPermissionError } from '../utils/tripRoles';
+import { saveTripMemberProfile, TravelerProfile, TRAVELER_COLORS, NICKNAME_MAX_LENGTH } from '../services/profiles';
+import TravelerAvatar from './TravelerAvatar';
+
+interface TravelerListProps {
+  trip: Trip;
+  profiles: Record<string, TravelerProfile>;
+}
+
+const ROLE_BADGE_CLASSES: Record<TripRole, string> = {
+  owner: 'bg-amber-100 text-amber-800',
+  editor: 'bg-blue-100 text-blue-700',
+  viewer: 'bg-gray-100 text-gray-600'
+};
+
+const TravelerList: React.FC<TravelerListProps> = ({ trip, profiles }) => {
+  const { currentUser } = useAuth();
+  const { setTravelerRole, removeTraveler, transferOwnership } = useTrip();
+
+  const [isEditingProfile, setIsEditingProfile] = useState(false);
+  const [nickname, setNickname] = useState('');
+  const [color, setColor] = useState('');
+
+  const isOwner = isTripOwner(trip, currentUser?.uid);
+
+  const reportError = (action: string, err: unknown) => {
+    console.error(`Error trying to ${action}:`, err);
+    alert(err instanceof TripPermissionError ? err.message : `Failed to ${action}. Please try again.`);
+  };
+
+  const startEditingProfile = (profile: TravelerProfile) => {
+    setNickname(profile.nickname || '');
+    setColor(profile.color);
+    setIsEditingProfile(true);
+  };
+
+  const saveProfile = async () => {
+    if (!currentUser) return;
+    setIsEditingProfile(false);
+
+    try {
+      await saveTripMemberProfile(trip.id, currentUser.uid, { nickname, color });
+    } catch (err) {
+      reportError('save your trip profile', err);
+    }
+  };
+
+  const handleRoleChange = async (uid: string, role: Exclude<TripRole, 'owner'>) => {
+    try {
+      await setTravelerRole(trip.id, uid, role);
+    } catch (err) {
+      reportError('change role', err);
+    }
+  };
+
+  const handleRemove = async (uid: string, name: string) => {
+    if (!window.confirm(`Remove ${name} from this trip? They'll need a new invite to rejoin.`)) return;
+
+    try {
+      await removeTraveler(trip.id, uid);
+    } catch (err) {
+      reportError('remove traveler', err);
+    }
+  };
+
+  const handleTransfer = async (uid: string, name: string) => {
+    if (!window.confirm(`Make ${name} the owner of this trip? You'll become an editor.`)) return;
+
+    try {
+      await transferOwnership(trip.id, uid);
+    } catch (err) {
+      reportError('transfer ownership', err);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {trip.participants.map(uid => {
+        const profile = profiles[uid];
+        const role = getTripRole(trip, uid) ?? 'viewer';
+        const isYou = uid === currentUser?.uid;
+        const name = profile.name;
+
+        if (isYou && isEditingProfile) {
+          return (
+            <div key={uid} className="p-2 -mx-2 rounded-lg bg-gray-50 space-y-2">
+              <input
+                type="text"
+                value={nickname}
+                onChange={(e) => setNickname(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') saveProfile();
+                  if (e.key === 'Escape') setIsEditingProfile(false);
+                }}
+                maxLength={NICKNAME_MAX_LENGTH}
+                placeholder={currentUser?.displayName || 'Nickname for this trip'}
+                className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:ring-blue-500 focus:border-blue-500"
+                aria-label="Nickname for this trip"
+                autoFocus
+              />
+              <div className="flex items-center">
+                <div className="flex flex-wrap gap-1 flex-grow" role="radiogroup" aria-label="Marker colour">
+                  {TRAVELER_COLORS.map(option => (
+                    <button
+                      key={option}
+                      type="button"
+                      onClick={() => setColor(option)}
+                      className={`w-5 h-5 rounded-full border-2 ${color === option ? 'border-gray-800' : 'border-white'}`}
+                      style={{ backgroundColor: option }}
+                      role="radio"
+                      aria-checked={color === option}
+                      aria-label={`Colour ${option}`}
+                    />
+                  ))}
+                </div>
+                <button
+                  onClick={saveProfile}
+                  className="p-1 text-gray-500 hover:text-green-600"
+                  aria-label="Save trip profile"
+                >
+                  <Check className="h-4 w-4" />
+                </button>
+                <button
+                  onClick={() => setIsEditingProfile(false)}
+                  className="p-1 text-gray-500 hover:text-gray-700"
+                  aria-label="Cancel editing trip profile"
+                >
+                  <X className="h-4 w-4" />
+                </button>
+              </div>
+            </div>
+          );
+        }
+
+        return (
+          <div key={uid} className="group flex items-center">
+            <TravelerAvatar profile={profile} className="w-8 h-8 mr-3" />
+            <div className="flex-grow min-w-0">
+              <p className="text-gray-800 truncate">
+                {name}
+                {isYou && <span className="ml-2 text-xs text-blue-600 font-medium">(You)</span>}
+              </p>
+              {isOwner && !isYou && role !== 'owner' ? (
+                <select
+                  value={role}
+                  onChange={(e) => handleRoleChange(uid, e.target.value as Exclude<TripRole, 'owner'>)}
+                  className="mt-0.5 px-1 py-0.5 text-xs border border-gray-200 rounded"
+                  aria-label={`Role for ${name}`}
+                >
+                  <option value="editor">{ROLE_LABELS.editor}</option>
+                  <option value="viewer">{ROLE_LABELS.viewer}</option>
+                </select>
+              ) : (
+                <span className={`inline-block mt-0.5 px-2 py-0.5 text-xs font-medium rounded-full ${ROLE_BADGE_CLASSES[role]}`}>
+                  {ROLE_LABELS[role]}
+                </span>
+              )}
+            </div>
+            {isYou && (
+              <button
+                onClick={() => startEditingProfile(profile)}
+                className="p-1 text-gray-400 hover:text-blue-600 opacity-0 group-hover:opacity-100 focus:opacity-100"
+                aria-label="Edit your nickname and marker colour"
+              >
+                <Pencil className="h-4 w-4" />
+              </button>
+            )}
+            {isOwner && !isYou && (
+              <div className="flex items-center opacity-0 group-hover:opacity-100 focus-within:opacity-100">
+                <button
+                  onClick={() => handleTransfer(uid, name)}
+                  className="p-1 text-gray-400 hover:text-amber-600"
+                  aria-label={`Make ${name} the owner`}
+                >
+                  <Crown className="h-4 w-4" />
+                </button>
+                <button
+                  onClick={() => handleRemove(uid, name)}
+                  className="p-1 text-gray-400 hover:text-red-600"
+                  aria-label={`Remove ${name}`}
+                >
+                  <UserMinus className="h-4 w-4" />
+                </button>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default TravelerList;
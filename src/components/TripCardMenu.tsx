@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { MoreVertical, Copy, Archive, ArchiveRestore, LogOut, Trash2 } from 'lucide-react';
+import { Trip, useTrip } from '../contexts/TripContext';
+import { useAuth } from '../contexts/AuthContext';
+import { isTripOwner, TripPermissionError } from '../utils/tripRoles';
+
+interface TripCardMenuProps {
+  trip: Trip;
+  className?: string;
+}
+
+// Lifecycle actions for a trip on the Dashboard; sits on top of a clickable card
+const TripCardMenu: React.FC<TripCardMenuProps> = ({ trip, className = '' }) => {
+  const { currentUser } = useAuth();
+  const { leaveTrip, archiveTrip, deleteTrip, duplicateTrip } = useTrip();
+  const navigate = useNavigate();
+
+  const [isOpen, setIsOpen] = useState(false);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const isOwner = isTripOwner(trip, currentUser?.uid);
+
+  const run = async (action: () => Promise<void>, failure: string) => {
+    setIsOpen(false);
+    setIsWorking(true);
+    try {
+      await action();
+    } catch (err) {
+      console.error(err);
+      alert(err instanceof TripPermissionError ? err.message : failure);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleDuplicate = () =>
+    run(async () => {
+      const tripId = await duplicateTrip(trip.id);
+      navigate(`/trip/${tripId}`);
+    }, 'Failed to duplicate trip. Please try again.');
+
+  const handleArchive = () =>
+    run(() => archiveTrip(trip.id, !trip.archivedAt), 'Failed to update trip. Please try again.');
+
+  const handleLeave = () => {
+    if (!window.confirm(`Leave ${trip.name}? You'll need a new invite to rejoin.`)) return;
+    run(() => leaveTrip(trip.id), 'Failed to leave trip. Please try again.');
+  };
+
+  const handleDelete = () => {
+    if (!window.confirm(`Delete ${trip.name} for everyone on it? This can't be undone.`)) return;
+    run(() => deleteTrip(trip.id), 'Failed to delete trip. Please try again.');
+  };
+
+  const itemClassName = 'flex items-center w-full px-4 py-2 text-sm hover:bg-gray-50';
+
+  return (
+    // Clicks here mustn't open the trip underneath
+    <div className={`relative ${className}`} onClick={(e) => e.stopPropagation()}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={isWorking}
+        className="p-1.5 rounded-full bg-black/40 text-white hover:bg-black/60 disabled:opacity-50"
+        aria-label={`Actions for ${trip.name}`}
+      >
+        <MoreVertical className="h-4 w-4" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 mt-2 w-44 bg-white rounded-lg shadow-lg py-1 z-10">
+          <button onClick={handleDuplicate} className={`${itemClassName} text-gray-700`}>
+            <Copy className="h-4 w-4 mr-2" />
+            Duplicate
+          </button>
+          {isOwner && (
+            <button onClick={handleArchive} className={`${itemClassName} text-gray-700`}>
+              {trip.archivedAt ? (
+                <>
+                  <ArchiveRestore className="h-4 w-4 mr-2" />
+                  Restore
+                </>
+              ) : (
+                <>
+                  <Archive className="h-4 w-4 mr-2" />
+                  Archive
+                </>
+              )}
+            </button>
+          )}
+          {isOwner ? (
+            <button onClick={handleDelete} className={`${itemClassName} text-red-600`}>
+              <Trash2 className="h-4 w-4 mr-2" />
+              Delete
+            </button>
+          ) : (
+            <button onClick={handleLeave} className={`${itemClassName} text-red-600`}>
+              <LogOut className="h-4 w-4 mr-2" />
+              Leave
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TripCardMenu;
@@ -1,18 +1,18 @@
 import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { useTrip } from '../contexts/TripContext';
+import { useTrip, NewTrip } from '../contexts/TripContext';
 import { useAuth } from '../contexts/AuthContext';
-import { X, Plus, Copy } from 'lucide-react';
+import { X, Plus, Copy, MapPin, Share2, Facebook, Twitter, MessageCircle } from 'lucide-react';
+import { createInvite, getInviteLink } from '../services/invites';
+import { resolvePlace, GeocodingResult, NoMatchError } from '../services/geocoding';
+import PlaceMatchList from './PlaceMatchList';
+import PlaceAutocomplete from './PlaceAutocomplete';
+import { fromDateTimeInputValue } from '../utils/schedule';
 
 interface TripModalProps {
   onClose: () => void;
 }
 
-interface PlaceSuggestion {
-  description: string;
-  place_id: string;
-}
-
 const TripModal: React.FC<TripModalProps> = ({ onClose }) => {
   const { createTrip } = useTrip();
   const { currentUser } = useAuth();
@@ -20,13 +20,19 @@ const TripModal: React.FC<TripModalProps> = ({ onClose }) => {
   
   const [tripName, setTripName] = useState('');
   const [destination, setDestination] = useState('');
-  const [stops, setStops] = useState<string[]>([]);
+  const [destinationPlace, setDestinationPlace] = useState<GeocodingResult | null>(null);
+  const [destinationMatches, setDestinationMatches] = useState<GeocodingResult[]>([]);
+  const [stops, setStops] = useState<NewTrip['stops']>([]);
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
   const [newStop, setNewStop] = useState('');
+  const [stopMatches, setStopMatches] = useState<GeocodingResult[]>([]);
+  const [isResolvingStop, setIsResolvingStop] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
-  const [suggestions, setSuggestions] = useState<PlaceSuggestion[]>([]);
   const [currentLocation, setCurrentLocation] = useState<{lat: number, lng: number} | null>(null);
   const [shareableLink, setShareableLink] = useState('');
+  const [createdTripId, setCreatedTripId] = useState<string | null>(null);
   const [showShareView, setShowShareView] = useState(false);
 
   useEffect(() => {
@@ -47,39 +53,47 @@ const TripModal: React.FC<TripModalProps> = ({ onClose }) => {
     }
   }, []);
 
-  // Mock function to simulate getting place suggestions
-  const getPlaceSuggestions = async (input: string) => {
-    if (!input.trim()) {
-      setSuggestions([]);
-      return;
-    }
-    
-    // In a real app, this would call the Google Places API
-    // For now, we'll simulate some suggestions
-    const mockSuggestions = [
-      { description: `${input}, New York, USA`, place_id: '1' },
-      { description: `${input}, California, USA`, place_id: '2' },
-      { description: `${input}, Texas, USA`, place_id: '3' },
-    ];
-    
-    setSuggestions(mockSuggestions);
+  const handleDestinationChange = (value: string) => {
+    setDestination(value);
+    setDestinationPlace(null);
+    setDestinationMatches([]);
   };
 
-  const handleDestinationChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const value = e.target.value;
-    setDestination(value);
-    getPlaceSuggestions(value);
+  const handleDestinationMatchSelect = (place: GeocodingResult) => {
+    setDestinationPlace(place);
+    setDestinationMatches([]);
   };
 
-  const handleSuggestionClick = (suggestion: PlaceSuggestion) => {
-    setDestination(suggestion.description);
-    setSuggestions([]);
+  const addResolvedStop = (place: GeocodingResult, name = newStop.trim()) => {
+    setStops([...stops, { name, location: place.location }]);
+    setNewStop('');
+    setStopMatches([]);
   };
 
-  const handleAddStop = () => {
-    if (newStop.trim()) {
-      setStops([...stops, newStop.trim()]);
-      setNewStop('');
+  const handleAddStop = async () => {
+    if (!newStop.trim()) return;
+    
+    setIsResolvingStop(true);
+    setError('');
+    setStopMatches([]);
+    
+    try {
+      const places = await resolvePlace(newStop);
+      
+      if (places.length > 1) {
+        setStopMatches(places);
+      } else {
+        addResolvedStop(places[0]);
+      }
+    } catch (err) {
+      if (err instanceof NoMatchError) {
+        setError(err.message);
+      } else {
+        setError('Failed to look up that stop. Please try again.');
+        console.error(err);
+      }
+    } finally {
+      setIsResolvingStop(false);
     }
   };
 
@@ -94,12 +108,31 @@ const TripModal: React.FC<TripModalProps> = ({ onClose }) => {
       setError('Please fill in all required fields and ensure location services are enabled');
       return;
     }
+
+    if (startDate && endDate && endDate < startDate) {
+      setError('The trip must end after it starts');
+      return;
+    }
     
     setIsLoading(true);
     setError('');
     
     try {
-      const tripData = {
+      let place = destinationPlace;
+      
+      if (!place) {
+        const places = await resolvePlace(destination);
+        
+        if (places.length > 1) {
+          setDestinationMatches(places);
+          return;
+        }
+        
+        place = places[0];
+        setDestinationPlace(place);
+      }
+      
+      const tripData: NewTrip = {
         name: tripName,
         origin: {
           name: 'Current Location',
@@ -107,45 +140,53 @@ const TripModal: React.FC<TripModalProps> = ({ onClose }) => {
         },
         destination: {
           name: destination,
-          location: {
-            lat: 0, // Will be set by backend
-            lng: 0
-          }
+          location: place.location
         },
-        stops: stops.map(stop => ({
-          name: stop,
-          location: {
-            lat: 0, // Will be set by backend
-            lng: 0
-          }
-        })),
-        createdBy: currentUser?.uid || ''
+        stops,
+        startDate: fromDateTimeInputValue(startDate),
+        endDate: fromDateTimeInputValue(endDate)
       };
       
-      // Send data to backend and get shareable link
-      const response = await fetch('https://mapsync.onrender.com/newtrip', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(tripData)
-      });
-
-      if (!response.ok) {
-        throw new Error('Failed to create trip');
-      }
-
-      const { shareLink } = await response.json();
-      setShareableLink(shareLink);
-      setShowShareView(true);
+      const tripId = await createTrip(tripData);
+      setCreatedTripId(tripId);
+      await showInviteLink({ ...tripData, id: tripId });
     } catch (err) {
-      setError('Failed to create trip. Please try again.');
+      if (err instanceof NoMatchError) {
+        setError(err.message);
+      } else {
+        setError('Failed to create trip. Please try again.');
+      }
       console.error(err);
     } finally {
       setIsLoading(false);
     }
   };
 
+  const openTrip = (tripId: string | null) => {
+    onClose();
+    if (tripId) {
+      navigate(`/trip/${tripId}`);
+    }
+  };
+
+  // A first invite for the new trip, so there's a link to hand out straight away
+  const showInviteLink = async (trip: NewTrip & { id: string }) => {
+    if (!currentUser) return;
+
+    try {
+      const invite = await createInvite({ ...trip, participants: [currentUser.uid] }, currentUser.uid);
+      setShareableLink(getInviteLink(invite.code));
+      setShowShareView(true);
+    } catch (err) {
+      // The trip is saved either way; its share menu can make another invite
+      console.error('Error creating invite:', err);
+      alert('Your trip was created, but the invite link could not be made. You can share it from the trip.');
+      openTrip(trip.id);
+    }
+  };
+
+  const handleDone = () => openTrip(createdTripId);
+
   const handleCopyLink = () => {
     navigator.clipboard.writeText(shareableLink);
   };
@@ -213,33 +254,56 @@ const TripModal: React.FC<TripModalProps> = ({ onClose }) => {
               <label htmlFor="destination" className="block text-sm font-medium text-gray-700 mb-1">
                 Destination
               </label>
-              <div className="relative">
+              <PlaceAutocomplete
+                id="destination"
+                value={destination}
+                onChange={handleDestinationChange}
+                onSelect={setDestinationPlace}
+                near={currentLocation}
+                inputClassName="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-black focus:border-black"
+                placeholder="e.g., Los Angeles, CA"
+                required
+              />
+              {destinationMatches.length > 0 && (
+                <PlaceMatchList
+                  query={destination}
+                  matches={destinationMatches}
+                  onSelect={handleDestinationMatchSelect}
+                />
+              )}
+              {destinationPlace && (
+                <p className="mt-1 text-xs text-gray-500">{destinationPlace.formattedAddress}</p>
+              )}
+            </div>
+            
+            <div className="mb-6 grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="startDate" className="block text-sm font-medium text-gray-700 mb-1">
+                  Departs (Optional)
+                </label>
                 <input
-                  type="text"
-                  id="destination"
-                  value={destination}
-                  onChange={handleDestinationChange}
+                  type="datetime-local"
+                  id="startDate"
+                  value={startDate}
+                  onChange={(e) => setStartDate(e.target.value)}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-black focus:border-black"
+                />
+              </div>
+              <div>
+                <label htmlFor="endDate" className="block text-sm font-medium text-gray-700 mb-1">
+                  Ends (Optional)
+                </label>
+                <input
+                  type="datetime-local"
+                  id="endDate"
+                  value={endDate}
+                  min={startDate || undefined}
+                  onChange={(e) => setEndDate(e.target.value)}
                   className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-black focus:border-black"
-                  placeholder="e.g., Los Angeles, CA"
-                  required
                 />
-                {suggestions.length > 0 && (
-                  <div className="absolute z-10 w-full mt-1 bg-white border border-gray-200 rounded-lg shadow-lg">
-                    {suggestions.map((suggestion) => (
-                      <button
-                        key={suggestion.place_id}
-                        type="button"
-                        onClick={() => handleSuggestionClick(suggestion)}
-                        className="w-full px-4 py-2 text-left hover:bg-gray-100 focus:outline-none focus:bg-gray-100"
-                      >
-                        {suggestion.description}
-                      </button>
-                    ))}
-                  </div>
-                )}
               </div>
             </div>
-            
+
             <div className="mb-6">
               <label className="block text-sm font-medium text-gray-700 mb-1">
                 Stops (Optional)
@@ -249,7 +313,7 @@ const TripModal: React.FC<TripModalProps> = ({ onClose }) => {
                 {stops.map((stop, index) => (
                   <div key={index} className="flex items-center bg-gray-50 p-3 rounded-lg">
                     <MapPin className="h-5 w-5 text-red-500 mr-2" />
-                    <span className="flex-grow text-gray-800">{stop}</span>
+                    <span className="flex-grow text-gray-800">{stop.name}</span>
                     <button
                       type="button"
                       onClick={() => handleRemoveStop(index)}
@@ -262,21 +326,36 @@ const TripModal: React.FC<TripModalProps> = ({ onClose }) => {
               </div>
               
               <div className="flex">
-                <input
-                  type="text"
+                <PlaceAutocomplete
                   value={newStop}
-                  onChange={(e) => setNewStop(e.target.value)}
-                  className="flex-grow px-4 py-2 border border-gray-300 rounded-l-lg focus:ring-black focus:border-black"
+                  onChange={(value) => {
+                    setNewStop(value);
+                    setStopMatches([]);
+                  }}
+                  onSelect={(place) => addResolvedStop(place, place.name)}
+                  near={destinationPlace?.location || currentLocation}
+                  className="flex-grow"
+                  inputClassName="w-full px-4 py-2 border border-gray-300 rounded-l-lg focus:ring-black focus:border-black"
                   placeholder="Add a stop"
                 />
                 <button
                   type="button"
                   onClick={handleAddStop}
-                  className="px-4 py-2 bg-black text-white rounded-r-lg hover:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-black"
+                  disabled={isResolvingStop}
+                  className={`px-4 py-2 bg-black text-white rounded-r-lg hover:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-black ${
+                    isResolvingStop ? 'opacity-70 cursor-not-allowed' : ''
+                  }`}
                 >
                   <Plus className="h-5 w-5" />
                 </button>
               </div>
+              {stopMatches.length > 0 && (
+                <PlaceMatchList
+                  query={newStop}
+                  matches={stopMatches}
+                  onSelect={addResolvedStop}
+                />
+              )}
             </div>
             
             <div className="flex justify-end space-x-4 pt-4 border-t">
@@ -384,7 +463,7 @@ const TripModal: React.FC<TripModalProps> = ({ onClose }) => {
                     onClick={() => handleShare('whatsapp')}
                     className="p-3 rounded-full bg-green-500 text-white hover:bg-green-600"
                   >
-                    <WhatsApp className="h-5 w-5" />
+                    <MessageCircle className="h-5 w-5" />
                   </button>
                 </div>
               </div>
@@ -393,7 +472,7 @@ const TripModal: React.FC<TripModalProps> = ({ onClose }) => {
             <div className="mt-6 flex justify-end">
               <button
                 type="button"
-                onClick={onClose}
+                onClick={handleDone}
                 className="px-4 py-2 bg-black text-white rounded-lg hover:bg-gray-800"
               >
                 Done
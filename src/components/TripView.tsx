@@ -1,36 +1,112 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { useTrip } from '../contexts/TripContext';
 import { useAuth } from '../contexts/AuthContext';
-import { Map, ArrowLeft, Plus, Users, Share2, MapPin } from 'lucide-react';
-import GroupMap from './GroupMap';
+import { Map, ArrowLeft, Plus, Share2, MapPin, Route, Download, MessageCircle, Bell, BellRing } from 'lucide-react';
+import GroupMap, { MapHighlight } from './GroupMap';
 import AddStopModal from './AddStopModal';
+import StopList from './StopList';
+import OptimizeStopsModal from './OptimizeStopsModal';
+import ShareMenu from './ShareMenu';
+import RouteSummary from './RouteSummary';
+import TravelerList from './TravelerList';
+import TravelerAvatar from './TravelerAvatar';
+import ChatPanel from './ChatPanel';
+import UnreadBadge from './UnreadBadge';
+import ActivityFeed from './ActivityFeed';
+import VehiclePanel from './VehiclePanel';
+import Itinerary from './Itinerary';
+import Expenses from './Expenses';
+import SyncStatus from './SyncStatus';
+import ConvoyAlerts from './ConvoyAlerts';
+import ConvoySettingsPanel from './ConvoySettingsPanel';
+import ArrivalSummary from './ArrivalSummary';
+import NotificationSettings from './NotificationSettings';
+import { useTripPresence } from '../hooks/useTripPresence';
+import { useTripRoute } from '../hooks/useTripRoute';
+import { useTravelerProfiles } from '../hooks/useTravelerProfiles';
+import { useTripVehicles } from '../hooks/useTripVehicles';
+import { useOnlineStatus } from '../hooks/useOnlineStatus';
+import { useConvoyAlerts } from '../hooks/useConvoyAlerts';
+import { useTripArrivals } from '../hooks/useTripArrivals';
+import { useTripNotifications } from '../hooks/useTripNotifications';
+import { useNotificationPreferences } from '../hooks/useNotificationPreferences';
+import { precacheTripTiles } from '../services/offlineTiles';
+import { downloadTrip, EXPORT_FORMATS, ExportFormat } from '../utils/tripExport';
+import { canEditTrip } from '../utils/tripRoles';
+import { DEFAULT_CONVOY_SETTINGS } from '../utils/convoyMonitor';
+
+type SidePanelTab = 'details' | 'itinerary' | 'expenses' | 'activity';
+
+const SIDE_PANEL_TABS: { id: SidePanelTab; label: string }[] = [
+  { id: 'details', label: 'Details' },
+  { id: 'itinerary', label: 'Itinerary' },
+  { id: 'expenses', label: 'Expenses' },
+  { id: 'activity', label: 'Activity' }
+];
 
 const TripView: React.FC = () => {
   const { tripId } = useParams<{ tripId: string }>();
-  const { trips, currentTrip, setCurrentTrip } = useTrip();
+  const { trips, currentTrip, loading, setCurrentTrip } = useTrip();
   const { currentUser } = useAuth();
   const navigate = useNavigate();
   
+  const { locations, error: locationError, now } = useTripPresence(currentTrip?.id);
+  const { route, loading: routeLoading, error: routeError } = useTripRoute(currentTrip);
+  const profiles = useTravelerProfiles(currentTrip);
+  const vehicles = useTripVehicles(currentTrip?.id);
+  const online = useOnlineStatus();
+  const convoyAlerts = useConvoyAlerts(currentTrip, locations, route, now);
+  const convoyReference = (currentTrip?.convoy ?? DEFAULT_CONVOY_SETTINGS).reference;
+  const arrivals = useTripArrivals(currentTrip, locations);
+  const notificationPreferences = useNotificationPreferences();
+  useTripNotifications(currentTrip, profiles, convoyAlerts, convoyReference);
+  
   const [showAddStopModal, setShowAddStopModal] = useState(false);
+  const [showOptimizeModal, setShowOptimizeModal] = useState(false);
   const [isShareMenuOpen, setIsShareMenuOpen] = useState(false);
+  const [isExportMenuOpen, setIsExportMenuOpen] = useState(false);
+  const [isNotificationMenuOpen, setIsNotificationMenuOpen] = useState(false);
+  const [isChatOpen, setIsChatOpen] = useState(false);
+  const [sidePanelTab, setSidePanelTab] = useState<SidePanelTab>('details');
+  const [mapHighlight, setMapHighlight] = useState<MapHighlight | null>(null);
   
   useEffect(() => {
-    if (tripId) {
-      const trip = trips.find(t => t.id === tripId);
-      if (trip) {
-        setCurrentTrip(trip);
-      } else {
-        // Trip not found, redirect to dashboard
-        navigate('/home');
-      }
+    setCurrentTrip(tripId ?? null);
+  }, [tripId, setCurrentTrip]);
+
+  const currentTripId = currentTrip?.id;
+
+  useEffect(() => {
+    // Wait for the first Firestore snapshots before deciding the trip is missing
+    if (!tripId || loading) return;
+
+    // A trip joined a moment ago may not be in the list snapshot yet
+    if (!trips.some(t => t.id === tripId) && currentTripId !== tripId) {
+      // Trip not found, redirect to dashboard
+      navigate('/home');
     }
-    
+  }, [tripId, trips, currentTripId, loading, navigate]);
+
+  // Read by the tile precache below, which runs once per opened trip rather than on every stop edit
+  const latestTrip = useRef(currentTrip);
+  latestTrip.current = currentTrip;
+
+  // Fetch map tiles for the trip's area while there's a connection, ready for dead zones
+  useEffect(() => {
+    const trip = latestTrip.current;
+    if (!trip || !online) return;
+    precacheTripTiles(trip).catch(error => {
+      console.error('Error caching map tiles:', error);
+    });
+  }, [currentTripId, online]);
+
+  useEffect(() => {
     return () => {
       // Clean up when component unmounts
       setCurrentTrip(null);
     };
-  }, [tripId, trips, setCurrentTrip, navigate]);
+  }, [setCurrentTrip]);
 
   if (!currentTrip) {
     return (
@@ -40,11 +116,11 @@ const TripView: React.FC = () => {
     );
   }
 
-  const copyInviteCode = () => {
-    navigator.clipboard.writeText(currentTrip.id);
-    setIsShareMenuOpen(false);
-    // Show toast notification (simplified)
-    alert('Invite code copied to clipboard!');
+  const canEdit = canEditTrip(currentTrip, currentUser?.uid);
+
+  const exportTrip = (format: ExportFormat) => {
+    downloadTrip(currentTrip, format, route?.path);
+    setIsExportMenuOpen(false);
   };
 
   return (
@@ -61,7 +137,10 @@ const TripView: React.FC = () => {
                 <ArrowLeft className="h-5 w-5 text-gray-600" />
               </button>
               <div>
-                <h1 className="text-xl font-bold text-gray-800">{currentTrip.name}</h1>
+                <div className="flex items-center space-x-2">
+                  <h1 className="text-xl font-bold text-gray-800">{currentTrip.name}</h1>
+                  <SyncStatus tripId={currentTrip.id} />
+                </div>
                 <div className="flex items-center text-sm text-gray-500">
                   <MapPin className="h-4 w-4 mr-1" />
                   <span>{currentTrip.origin.name} → {currentTrip.destination.name}</span>
@@ -70,45 +149,86 @@ const TripView: React.FC = () => {
             </div>
             
             <div className="flex items-center space-x-2">
+              <button
+                onClick={() => setIsChatOpen(!isChatOpen)}
+                className={`relative p-2 rounded-full hover:bg-gray-100 ${isChatOpen ? 'bg-gray-100' : ''}`}
+                aria-label={isChatOpen ? 'Close chat' : 'Open chat'}
+              >
+                <MessageCircle className="h-5 w-5 text-gray-600" />
+                {!isChatOpen && <UnreadBadge tripId={currentTrip.id} className="absolute -top-1 -right-1" />}
+              </button>
+
               <div className="relative">
                 <button
-                  onClick={() => setIsShareMenuOpen(!isShareMenuOpen)}
+                  onClick={() => {
+                    setIsNotificationMenuOpen(!isNotificationMenuOpen);
+                    setIsExportMenuOpen(false);
+                    setIsShareMenuOpen(false);
+                  }}
                   className="p-2 rounded-full hover:bg-gray-100"
+                  aria-label="Notification settings"
                 >
-                  <Share2 className="h-5 w-5 text-gray-600" />
+                  {notificationPreferences.enabled
+                    ? <BellRing className="h-5 w-5 text-gray-600" />
+                    : <Bell className="h-5 w-5 text-gray-600" />}
+                </button>
+
+                {isNotificationMenuOpen && <NotificationSettings />}
+              </div>
+
+              <div className="relative">
+                <button
+                  onClick={() => {
+                    setIsExportMenuOpen(!isExportMenuOpen);
+                    setIsShareMenuOpen(false);
+                    setIsNotificationMenuOpen(false);
+                  }}
+                  className="p-2 rounded-full hover:bg-gray-100"
+                  aria-label="Export trip"
+                >
+                  <Download className="h-5 w-5 text-gray-600" />
                 </button>
                 
-                {isShareMenuOpen && (
+                {isExportMenuOpen && (
                   <div className="absolute right-0 mt-2 w-64 bg-white rounded-md shadow-lg py-1 z-10">
                     <div className="px-4 py-3 border-b">
-                      <p className="text-sm font-medium text-gray-700">Share this trip</p>
-                      <p className="text-xs text-gray-500">Invite code: {currentTrip.id}</p>
+                      <p className="text-sm font-medium text-gray-700">Export this trip</p>
+                      <p className="text-xs text-gray-500">
+                        {route ? 'Includes the driving route' : 'Waypoints only, no driving route'}
+                      </p>
                     </div>
-                    <button 
-                      onClick={copyInviteCode}
-                      className="flex items-center w-full px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
-                    >
-                      <span>Copy invite code</span>
-                    </button>
+                    {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(format => (
+                      <button
+                        key={format}
+                        onClick={() => exportTrip(format)}
+                        className="flex items-center w-full px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
+                      >
+                        <span>{EXPORT_FORMATS[format].label}</span>
+                      </button>
+                    ))}
                   </div>
                 )}
               </div>
               
+              <div className="relative">
+                <button
+                  onClick={() => {
+                    setIsShareMenuOpen(!isShareMenuOpen);
+                    setIsExportMenuOpen(false);
+                    setIsNotificationMenuOpen(false);
+                  }}
+                  className="p-2 rounded-full hover:bg-gray-100"
+                >
+                  <Share2 className="h-5 w-5 text-gray-600" />
+                </button>
+                
+                {isShareMenuOpen && <ShareMenu trip={currentTrip} />}
+              </div>
+              
               <div className="flex -space-x-2">
-                {currentTrip.participants.map((participant, index) => (
-                  <div 
-                    key={index}
-                    className="w-8 h-8 rounded-full border-2 border-white bg-gray-200 flex items-center justify-center overflow-hidden"
-                  >
-                    {index === 0 ? (
-                      <img 
-                        src={currentUser?.photoURL || 'https://images.pexels.com/photos/220453/pexels-photo-220453.jpeg?auto=compress&cs=tinysrgb&w=1260&h=750&dpr=2'} 
-                        alt="User" 
-                        className="w-full h-full object-cover"
-                      />
-                    ) : (
-                      <Users className="h-4 w-4 text-gray-600" />
-                    )}
+                {currentTrip.participants.map(uid => (
+                  <div key={uid} className="rounded-full ring-2 ring-white">
+                    <TravelerAvatar profile={profiles[uid]} />
                   </div>
                 ))}
               </div>
@@ -121,96 +241,149 @@ const TripView: React.FC = () => {
       <main className="flex-grow flex flex-col md:flex-row">
         {/* Map Container */}
         <div className="flex-grow relative">
-          <GroupMap trip={currentTrip} />
+          <GroupMap
+            trip={currentTrip}
+            locations={locations}
+            currentUserId={currentUser?.uid}
+            profiles={profiles}
+            vehicles={vehicles}
+            now={now}
+            route={route}
+            highlight={mapHighlight}
+          />
+          
+          <div className="absolute top-4 left-4 right-4 md:right-auto md:max-w-sm space-y-2 z-10">
+            {locationError && (
+              <div className="bg-white border border-amber-200 text-amber-800 text-sm rounded-lg shadow-md px-4 py-3">
+                {locationError}
+              </div>
+            )}
+            <ConvoyAlerts
+              alerts={convoyAlerts}
+              reference={convoyReference}
+              profiles={profiles}
+              currentUserId={currentUser?.uid}
+            />
+          </div>
           
           {/* Floating Action Button */}
-          <button
-            onClick={() => setShowAddStopModal(true)}
-            className="absolute bottom-6 right-6 bg-blue-600 text-white p-3 rounded-full shadow-lg hover:bg-blue-700 transition duration-300 z-10"
-          >
-            <Plus className="h-6 w-6" />
-          </button>
+          {canEdit && (
+            <button
+              onClick={() => setShowAddStopModal(true)}
+              className="absolute bottom-6 right-6 bg-blue-600 text-white p-3 rounded-full shadow-lg hover:bg-blue-700 transition duration-300 z-10"
+            >
+              <Plus className="h-6 w-6" />
+            </button>
+          )}
         </div>
         
         {/* Side Panel */}
         <div className="w-full md:w-80 bg-white border-t md:border-t-0 md:border-l border-gray-200 overflow-y-auto">
-          <div className="p-4 border-b border-gray-200">
-            <h2 className="text-lg font-semibold text-gray-800">Trip Details</h2>
+          <div className="px-4 border-b border-gray-200 flex space-x-4" role="tablist">
+            {SIDE_PANEL_TABS.map(tab => (
+              <button
+                key={tab.id}
+                onClick={() => setSidePanelTab(tab.id)}
+                className={`py-4 text-sm font-semibold border-b-2 -mb-px whitespace-nowrap ${
+                  sidePanelTab === tab.id
+                    ? 'border-blue-600 text-gray-800'
+                    : 'border-transparent text-gray-400 hover:text-gray-600'
+                }`}
+                role="tab"
+                aria-selected={sidePanelTab === tab.id}
+              >
+                {tab.label}
+              </button>
+            ))}
           </div>
-          
-          <div className="p-4">
-            <div className="mb-6">
-              <h3 className="text-sm font-medium text-gray-500 mb-2">Origin</h3>
-              <div className="flex items-start">
-                <div className="bg-red-100 p-1 rounded-full mr-3 mt-1">
-                  <MapPin className="h-4 w-4 text-red-600" />
+
+          {sidePanelTab === 'details' ? (
+            <>
+              <div className="p-4">
+                <div className="mb-6">
+                  <h3 className="text-sm font-medium text-gray-500 mb-2">Origin</h3>
+                  <div className="flex items-start">
+                    <div className="bg-red-100 p-1 rounded-full mr-3 mt-1">
+                      <MapPin className="h-4 w-4 text-red-600" />
+                    </div>
+                    <div>
+                      <p className="font-medium text-gray-800">{currentTrip.origin.name}</p>
+                    </div>
+                  </div>
                 </div>
+
+                {currentTrip.stops.length > 0 && (
+                  <div className="mb-6">
+                    <div className="flex items-center justify-between mb-2">
+                      <h3 className="text-sm font-medium text-gray-500">Stops</h3>
+                      {canEdit && currentTrip.stops.length > 1 && (
+                        <button
+                          onClick={() => setShowOptimizeModal(true)}
+                          className="flex items-center text-xs font-medium text-blue-600 hover:text-blue-700"
+                        >
+                          <Route className="h-3 w-3 mr-1" />
+                          Optimize order
+                        </button>
+                      )}
+                    </div>
+                    <StopList trip={currentTrip} readOnly={!canEdit} />
+                  </div>
+                )}
+
                 <div>
-                  <p className="font-medium text-gray-800">{currentTrip.origin.name}</p>
-                </div>
-              </div>
-            </div>
-            
-            {currentTrip.stops.length > 0 && (
-              <div className="mb-6">
-                <h3 className="text-sm font-medium text-gray-500 mb-2">Stops</h3>
-                <div className="space-y-3">
-                  {currentTrip.stops.map((stop, index) => (
-                    <div key={stop.id} className="flex items-start">
-                      <div className="bg-blue-100 p-1 rounded-full mr-3 mt-1">
-                        <span className="block h-4 w-4 text-xs font-bold text-blue-600 text-center">
-                          {index + 1}
-                        </span>
-                      </div>
-                      <div>
-                        <p className="font-medium text-gray-800">{stop.name}</p>
-                      </div>
+                  <h3 className="text-sm font-medium text-gray-500 mb-2">Destination</h3>
+                  <div className="flex items-start">
+                    <div className="bg-green-100 p-1 rounded-full mr-3 mt-1">
+                      <MapPin className="h-4 w-4 text-green-600" />
                     </div>
-                  ))}
+                    <div>
+                      <p className="font-medium text-gray-800">{currentTrip.destination.name}</p>
+                    </div>
+                  </div>
                 </div>
               </div>
-            )}
-            
-            <div>
-              <h3 className="text-sm font-medium text-gray-500 mb-2">Destination</h3>
-              <div className="flex items-start">
-                <div className="bg-green-100 p-1 rounded-full mr-3 mt-1">
-                  <MapPin className="h-4 w-4 text-green-600" />
-                </div>
-                <div>
-                  <p className="font-medium text-gray-800">{currentTrip.destination.name}</p>
-                </div>
+
+              <ArrivalSummary trip={currentTrip} arrivals={arrivals} profiles={profiles} />
+
+              <RouteSummary
+                trip={currentTrip}
+                route={route}
+                loading={routeLoading}
+                error={routeError}
+              />
+
+              <div className="p-4 border-t border-gray-200">
+                <h3 className="text-sm font-medium text-gray-500 mb-2">Travelers</h3>
+                <TravelerList trip={currentTrip} profiles={profiles} />
               </div>
-            </div>
-          </div>
-          
-          <div className="p-4 border-t border-gray-200">
-            <h3 className="text-sm font-medium text-gray-500 mb-2">Travelers</h3>
-            <div className="space-y-3">
-              {currentTrip.participants.map((participant, index) => (
-                <div key={index} className="flex items-center">
-                  <div className="w-8 h-8 rounded-full bg-gray-200 mr-3 overflow-hidden">
-                    {index === 0 ? (
-                      <img 
-                        src={currentUser?.photoURL || 'https://images.pexels.com/photos/220453/pexels-photo-220453.jpeg?auto=compress&cs=tinysrgb&w=1260&h=750&dpr=2'} 
-                        alt="User" 
-                        className="w-full h-full object-cover"
-                      />
-                    ) : (
-                      <div className="w-full h-full flex items-center justify-center">
-                        <Users className="h-4 w-4 text-gray-600" />
-                      </div>
-                    )}
-                  </div>
-                  <p className="text-gray-800">
-                    {index === 0 ? (currentUser?.displayName || 'You') : `Traveler ${index + 1}`}
-                    {index === 0 && <span className="ml-2 text-xs text-blue-600 font-medium">(You)</span>}
-                  </p>
-                </div>
-              ))}
-            </div>
-          </div>
+
+              <div className="p-4 border-t border-gray-200">
+                <h3 className="text-sm font-medium text-gray-500 mb-2">Cars</h3>
+                <VehiclePanel trip={currentTrip} vehicles={vehicles} profiles={profiles} readOnly={!canEdit} />
+              </div>
+
+              <div className="p-4 border-t border-gray-200">
+                <ConvoySettingsPanel trip={currentTrip} readOnly={!canEdit} />
+              </div>
+            </>
+          ) : sidePanelTab === 'itinerary' ? (
+            <Itinerary trip={currentTrip} route={route} readOnly={!canEdit} />
+          ) : sidePanelTab === 'expenses' ? (
+            <Expenses trip={currentTrip} profiles={profiles} />
+          ) : (
+            <ActivityFeed trip={currentTrip} profiles={profiles} />
+          )}
         </div>
+
+        {/* Chat Panel */}
+        {isChatOpen && (
+          <ChatPanel
+            trip={currentTrip}
+            profiles={profiles}
+            onShowOnMap={setMapHighlight}
+            onClose={() => setIsChatOpen(false)}
+          />
+        )}
       </main>
 
       {/* Modals */}
@@ -220,6 +393,13 @@ const TripView: React.FC = () => {
           onClose={() => setShowAddStopModal(false)} 
         />
       )}
+      
+      {showOptimizeModal && (
+        <OptimizeStopsModal
+          trip={currentTrip}
+          onClose={() => setShowOptimizeModal(false)}
+        />
+      )}
     </div>
   );
 };
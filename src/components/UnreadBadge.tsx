@@ -0,0 +1,27 @@
+import React from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { useUnreadCount } from '../hooks/useTripChat';
+
+interface UnreadBadgeProps {
+  tripId: string;
+  className?: string;
+}
+
+// Unread chat messages on a trip; renders nothing when everything is read
+const UnreadBadge: React.FC<UnreadBadgeProps> = ({ tripId, className = '' }) => {
+  const { currentUser } = useAuth();
+  const count = useUnreadCount(tripId, currentUser?.uid);
+
+  if (count === 0) return null;
+
+  return (
+    <span
+      className={`min-w-[1.25rem] h-5 px-1 rounded-full bg-red-500 text-white text-xs font-bold flex items-center justify-center ${className}`}
+      aria-label={`${count} unread ${count === 1 ? 'message' : 'messages'}`}
+    >
+      {count > 99 ? '99+' : count}
+    </span>
+  );
+};
+
+export default UnreadBadge;
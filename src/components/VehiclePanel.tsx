@@ -0,0 +1,277 @@
+import React, { useState } from 'react';
+import { Car, Plus, Trash2 } from 'lucide-react';
+import { Trip } from '../contexts/TripContext';
+import { useAuth } from '../contexts/AuthContext';
+import { TravelerProfile, TRAVELER_COLORS } from '../services/profiles';
+import {
+  Vehicle,
+  SeatAssignment,
+  VEHICLE_NAME_MAX_LENGTH,
+  createVehicle,
+  deleteVehicle,
+  seatTraveler,
+  setVehicleTracker,
+  getVehicleOccupants
+} from '../services/vehicles';
+import TravelerAvatar from './TravelerAvatar';
+
+interface VehiclePanelProps {
+  trip: Trip;
+  vehicles: Vehicle[];
+  profiles: Record<string, TravelerProfile>;
+  // Viewers see who is in which car but can't move anyone
+  readOnly?: boolean;
+}
+
+// Drop targets: a car's driver seat, its passenger seats, or out of every car
+type DropTarget = SeatAssignment | 'unassigned';
+
+const targetKey = (target: DropTarget) =>
+  target === 'unassigned' || target === null ? 'unassigned' : `${target.vehicleId}:${target.seat}`;
+
+const VehiclePanel: React.FC<VehiclePanelProps> = ({ trip, vehicles, profiles, readOnly = false }) => {
+  const { currentUser } = useAuth();
+
+  const [draggedUid, setDraggedUid] = useState<string | null>(null);
+  const [overTarget, setOverTarget] = useState<string | null>(null);
+  const [isAdding, setIsAdding] = useState(false);
+  const [name, setName] = useState('');
+  const [color, setColor] = useState(TRAVELER_COLORS[0]);
+
+  // Travelers who have left the trip may still be listed on a car
+  const isTraveler = (uid: string) => trip.participants.includes(uid);
+  const seated = new Set(vehicles.flatMap(getVehicleOccupants));
+  const unassigned = trip.participants.filter(uid => !seated.has(uid));
+
+  const startAdding = () => {
+    setName(`Car ${vehicles.length + 1}`);
+    setColor(TRAVELER_COLORS[vehicles.length % TRAVELER_COLORS.length]);
+    setIsAdding(true);
+  };
+
+  const handleAdd = async () => {
+    if (!currentUser || !name.trim()) return;
+    setIsAdding(false);
+
+    try {
+      await createVehicle(trip.id, currentUser.uid, { name, color });
+    } catch (err) {
+      console.error('Error adding car:', err);
+      alert('Failed to add car. Please try again.');
+    }
+  };
+
+  const handleDelete = async (vehicle: Vehicle) => {
+    if (!currentUser || !window.confirm(`Remove ${vehicle.name}? Everyone in it becomes unassigned.`)) return;
+
+    try {
+      await deleteVehicle(trip.id, currentUser.uid, vehicle);
+    } catch (err) {
+      console.error('Error removing car:', err);
+      alert('Failed to remove car. Please try again.');
+    }
+  };
+
+  const handleDrop = async (target: DropTarget) => {
+    const uid = draggedUid;
+    setDraggedUid(null);
+    setOverTarget(null);
+    if (!uid || !currentUser) return;
+
+    try {
+      await seatTraveler(trip.id, currentUser.uid, vehicles, uid, target === 'unassigned' ? null : target);
+    } catch (err) {
+      console.error('Error moving traveler:', err);
+      alert('Failed to move traveler. Please try again.');
+    }
+  };
+
+  const handleTrackerChange = async (vehicle: Vehicle, trackerId: string) => {
+    try {
+      await setVehicleTracker(trip.id, vehicle.id, trackerId || null);
+    } catch (err) {
+      console.error('Error changing car tracker:', err);
+      alert('Failed to update the car. Please try again.');
+    }
+  };
+
+  const dropZoneProps = (target: DropTarget) => readOnly ? {} : {
+    onDragOver: (e: React.DragEvent) => {
+      e.preventDefault();
+      setOverTarget(targetKey(target));
+    },
+    onDragLeave: () => setOverTarget(current => (current === targetKey(target) ? null : current)),
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      handleDrop(target);
+    }
+  };
+
+  const dropZoneClassName = (target: DropTarget) =>
+    overTarget === targetKey(target) && draggedUid ? 'border-blue-300 bg-blue-50' : 'border-dashed border-gray-200';
+
+  const renderTraveler = (uid: string) => {
+    const profile = profiles[uid];
+    if (!profile) return null;
+
+    return (
+      <div
+        key={uid}
+        draggable={!readOnly}
+        onDragStart={(e) => {
+          e.dataTransfer.effectAllowed = 'move';
+          setDraggedUid(uid);
+        }}
+        onDragEnd={() => {
+          setDraggedUid(null);
+          setOverTarget(null);
+        }}
+        className={`flex items-center bg-white border border-gray-200 rounded-full pl-0.5 pr-2 py-0.5 text-xs text-gray-700 ${
+          readOnly ? '' : 'cursor-grab'
+        } ${draggedUid === uid ? 'opacity-50' : ''}`}
+      >
+        <TravelerAvatar profile={profile} className="w-5 h-5 mr-1" />
+        <span className="truncate max-w-[7rem]">{profile.name}</span>
+        {uid === currentUser?.uid && <span className="text-gray-400 ml-1">(You)</span>}
+      </div>
+    );
+  };
+
+  if (readOnly && vehicles.length === 0) {
+    return <p className="text-sm text-gray-400">No cars yet</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {vehicles.map(vehicle => {
+        const occupants = getVehicleOccupants(vehicle).filter(isTraveler);
+        const driverTarget: DropTarget = { vehicleId: vehicle.id, seat: 'driver' };
+        const passengerTarget: DropTarget = { vehicleId: vehicle.id, seat: 'passenger' };
+
+        return (
+          <div key={vehicle.id} className="rounded-lg border border-gray-200 p-2">
+            <div className="flex items-center justify-between mb-2">
+              <div className="flex items-center min-w-0">
+                <Car className="h-4 w-4 mr-2 flex-shrink-0" style={{ color: vehicle.color }} />
+                <p className="font-medium text-gray-800 truncate">{vehicle.name}</p>
+              </div>
+              {!readOnly && (
+                <button
+                  onClick={() => handleDelete(vehicle)}
+                  className="p-1 text-gray-400 hover:text-red-600"
+                  aria-label={`Remove ${vehicle.name}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              )}
+            </div>
+
+            <div
+              {...dropZoneProps(driverTarget)}
+              className={`flex items-center min-h-[2rem] px-2 py-1 mb-1 rounded border-2 ${dropZoneClassName(driverTarget)}`}
+            >
+              <span className="text-xs text-gray-500 w-12 flex-shrink-0">Driver</span>
+              {vehicle.driverId && isTraveler(vehicle.driverId)
+                ? renderTraveler(vehicle.driverId)
+                : <span className="text-xs text-gray-400">{readOnly ? 'No driver' : 'Drop the driver here'}</span>}
+            </div>
+
+            <div
+              {...dropZoneProps(passengerTarget)}
+              className={`flex flex-wrap gap-1 min-h-[2rem] px-2 py-1 rounded border-2 ${dropZoneClassName(passengerTarget)}`}
+            >
+              {vehicle.passengerIds.filter(isTraveler).length > 0
+                ? vehicle.passengerIds.filter(isTraveler).map(uid => renderTraveler(uid))
+                : <span className="text-xs text-gray-400">{readOnly ? 'No passengers' : 'Drop passengers here'}</span>}
+            </div>
+
+            {!readOnly && occupants.length > 1 && (
+              <label className="flex items-center mt-2 text-xs text-gray-500">
+                <span className="mr-2 flex-shrink-0">Map position from</span>
+                <select
+                  value={vehicle.trackerId ?? ''}
+                  onChange={(e) => handleTrackerChange(vehicle, e.target.value)}
+                  className="flex-1 min-w-0 px-1 py-0.5 border border-gray-300 rounded"
+                >
+                  <option value="">The driver</option>
+                  {occupants.map(uid => (
+                    <option key={uid} value={uid}>{profiles[uid]?.name ?? 'Traveler'}</option>
+                  ))}
+                </select>
+              </label>
+            )}
+          </div>
+        );
+      })}
+
+      <div
+        {...dropZoneProps('unassigned')}
+        className={`rounded-lg border-2 p-2 ${dropZoneClassName('unassigned')}`}
+      >
+        <p className="text-xs text-gray-500 mb-1">Not in a car</p>
+        <div className="flex flex-wrap gap-1">
+          {unassigned.length > 0
+            ? unassigned.map(uid => renderTraveler(uid))
+            : <span className="text-xs text-gray-400">Everyone has a seat</span>}
+        </div>
+      </div>
+
+      {!readOnly && (isAdding ? (
+        <div className="rounded-lg border border-gray-200 p-2 space-y-2">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleAdd();
+              if (e.key === 'Escape') setIsAdding(false);
+            }}
+            maxLength={VEHICLE_NAME_MAX_LENGTH}
+            className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:ring-blue-500 focus:border-blue-500"
+            aria-label="Car name"
+            autoFocus
+          />
+          <div className="flex items-center space-x-1" role="radiogroup" aria-label="Car colour">
+            {TRAVELER_COLORS.map(option => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setColor(option)}
+                className={`w-5 h-5 rounded-full border-2 ${color === option ? 'border-gray-800' : 'border-white'}`}
+                style={{ backgroundColor: option }}
+                role="radio"
+                aria-checked={color === option}
+                aria-label={`Colour ${option}`}
+              />
+            ))}
+          </div>
+          <div className="flex justify-end space-x-2">
+            <button
+              onClick={() => setIsAdding(false)}
+              className="px-3 py-1 text-sm text-gray-600 hover:text-gray-800"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleAdd}
+              disabled={!name.trim()}
+              className="px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+            >
+              Add car
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button
+          onClick={startAdding}
+          className="flex items-center text-xs font-medium text-blue-600 hover:text-blue-700"
+        >
+          <Plus className="h-3 w-3 mr-1" />
+          Add a car
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default VehiclePanel;
@@ -1,6 +1,7 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import { signInWithPopup, GoogleAuthProvider, signOut, onAuthStateChanged, User as FirebaseUser } from 'firebase/auth';
 import { auth } from '../config/firebase';
+import { saveUserProfile } from '../services/profiles';
 
 interface User {
   uid: string;
@@ -72,6 +73,10 @@ export function AuthProvider({ children }: AuthProviderProps) {
           email: user.email,
           photoURL: user.photoURL
         });
+        // Lets co-travelers see this user's current name and photo
+        saveUserProfile(user).catch(error => {
+          console.error('Error saving user profile:', error);
+        });
       } else {
         setCurrentUser(null);
       }
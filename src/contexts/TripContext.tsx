@@ -1,6 +1,28 @@
-import React, { createContext, useContext, useState, ReactNode } from 'react';
+import { createContext, useContext, useState, useEffect, useCallback, useMemo, ReactNode } from 'react';
+import {
+  collection,
+  doc,
+  getDocs,
+  updateDoc,
+  writeBatch,
+  WriteBatch,
+  DocumentData,
+  onSnapshot,
+  query,
+  where,
+  DocumentSnapshot
+} from 'firebase/firestore';
+import { db } from '../config/firebase';
+import { useAuth } from './AuthContext';
+import { getInvite, redeemInvite, invitesCollection } from '../services/invites';
+import { prepareActivityEvent, NewActivityEvent } from '../services/activity';
+import { getTripRole, canEditTrip, isTripOwner, TripPermissionError } from '../utils/tripRoles';
+import { awaitWriteIfOnline } from '../utils/offlineWrite';
+import { buildStopList, planStopEdit, StopEdit, StopOp } from '../utils/tripCrdt';
+import { ConvoySettings } from '../utils/convoyMonitor';
+import { getVehicles, planSeatChange, vehiclesCollection } from '../services/vehicles';
+import { stopOpsCollection, getStopOps, getReplicaId, toStopOp, prepareStopOp } from '../services/tripOps';
 
-// Mock trip types
 export interface Stop {
   id: string;
   name: string;
@@ -8,8 +30,16 @@ export interface Stop {
     lat: number;
     lng: number;
   };
+  // ISO timestamp the group plans to get here; missing on stops without a plan
+  plannedArrival?: string | null;
+  // How long the group plans to stay
+  dwellMinutes?: number | null;
+  // Meters from the stop that count as having arrived; DEFAULT_GEOFENCE_RADIUS_METERS when missing
+  arrivalRadius?: number | null;
 }
 
+export type TripRole = 'owner' | 'editor' | 'viewer';
+
 export interface Trip {
   id: string;
   name: string;
@@ -28,19 +58,54 @@ export interface Trip {
     };
   };
   stops: Stop[];
+  // ISO timestamps: leaving the origin, and when the trip has to be over
+  startDate?: string | null;
+  endDate?: string | null;
+  // ISO timestamp; archived trips are done with and listed separately
+  archivedAt?: string | null;
+  // Separation and off-route alert thresholds; DEFAULT_CONVOY_SETTINGS when missing
+  convoy?: ConvoySettings | null;
   participants: string[];
+  // Missing on trips created before roles existed; see getTripRole
+  roles?: Record<string, TripRole>;
   createdBy: string;
   createdAt: string;
   imageUrl: string; // Added imageUrl field
 }
 
+// What a caller provides to create a trip; ids, ownership and timestamps are filled in
+export type NewTrip = Pick<Trip, 'name' | 'origin' | 'destination' | 'startDate' | 'endDate'> & {
+  stops: Omit<Stop, 'id'>[];
+  imageUrl?: string;
+};
+
 interface TripContextType {
   trips: Trip[];
   currentTrip: Trip | null;
-  createTrip: (tripData: Omit<Trip, 'id' | 'createdAt'>) => Promise<string>;
-  joinTrip: (inviteCode: string) => Promise<boolean>;
+  // True until the trip list, and the trip opened with setCurrentTrip, have loaded
+  loading: boolean;
+  createTrip: (tripData: NewTrip) => Promise<string>;
+  // Resolves with the joined trip's id; rejects with InviteError for unusable codes
+  joinTrip: (inviteCode: string) => Promise<string>;
   addStop: (tripId: string, stop: Omit<Stop, 'id'>) => Promise<boolean>;
-  setCurrentTrip: (trip: Trip | null) => void;
+  updateStop: (tripId: string, stopId: string, changes: Partial<Omit<Stop, 'id'>>) => Promise<boolean>;
+  removeStop: (tripId: string, stopId: string) => Promise<boolean>;
+  reorderStops: (tripId: string, stopIds: string[]) => Promise<boolean>;
+  updateTripDates: (tripId: string, dates: Pick<Trip, 'startDate' | 'endDate'>) => Promise<void>;
+  updateConvoySettings: (tripId: string, settings: ConvoySettings) => Promise<void>;
+  // Owner-only; reject with TripPermissionError otherwise
+  setTravelerRole: (tripId: string, uid: string, role: Exclude<TripRole, 'owner'>) => Promise<void>;
+  removeTraveler: (tripId: string, uid: string) => Promise<void>;
+  transferOwnership: (tripId: string, uid: string) => Promise<void>;
+  // The owner can't leave; they transfer ownership or delete the trip instead
+  leaveTrip: (tripId: string) => Promise<void>;
+  // Owner-only; reject with TripPermissionError otherwise
+  archiveTrip: (tripId: string, archived: boolean) => Promise<void>;
+  deleteTrip: (tripId: string) => Promise<void>;
+  // Resolves with the new trip's id; the copy starts with only the current user on it
+  duplicateTrip: (tripId: string) => Promise<string>;
+  // Opens the trip with this id; it's read from Firestore, not taken from the caller
+  setCurrentTrip: (tripId: string | null) => void;
 }
 
 const TripContext = createContext<TripContextType | undefined>(undefined);
@@ -53,145 +118,511 @@ export function useTrip() {
   return context;
 }
 
-// Sample mock data with real photos
-const mockTrips: Trip[] = [
-  {
-    id: 'trip1',
-    name: 'Pacific Coast Highway',
-    origin: {
-      name: 'San Francisco, CA',
-      location: { lat: 37.7749, lng: -122.4194 }
-    },
-    destination: {
-      name: 'Los Angeles, CA',
-      location: { lat: 34.0522, lng: -118.2437 }
-    },
-    stops: [
-      {
-        id: 'stop1',
-        name: 'Monterey Bay Aquarium',
-        location: { lat: 36.6182, lng: -121.9019 }
-      },
-      {
-        id: 'stop2',
-        name: 'Big Sur',
-        location: { lat: 36.2704, lng: -121.8081 }
-      }
-    ],
-    participants: ['user123', 'user456'],
-    createdBy: 'user123',
-    createdAt: new Date().toISOString(),
-    imageUrl: 'https://images.pexels.com/photos/13291360/pexels-photo-13291360.jpeg'
-  },
-  {
-    id: 'trip2',
-    name: 'East Coast Tour',
-    origin: {
-      name: 'Boston, MA',
-      location: { lat: 42.3601, lng: -71.0589 }
-    },
-    destination: {
-      name: 'New York, NY',
-      location: { lat: 40.7128, lng: -74.0060 }
-    },
-    stops: [
-      {
-        id: 'stop3',
-        name: 'Providence, RI',
-        location: { lat: 41.8240, lng: -71.4128 }
-      }
-    ],
-    participants: ['user123'],
-    createdBy: 'user123',
-    createdAt: new Date().toISOString(),
-    imageUrl: 'https://images.pexels.com/photos/2190283/pexels-photo-2190283.jpeg'
-  },
-  {
-    id: 'trip3',
-    name: 'Rocky Mountain Adventure',
-    origin: {
-      name: 'Denver, CO',
-      location: { lat: 39.7392, lng: -104.9903 }
-    },
-    destination: {
-      name: 'Yellowstone, WY',
-      location: { lat: 44.4280, lng: -110.5885 }
-    },
-    stops: [],
-    participants: ['user123'],
-    createdBy: 'user123',
-    createdAt: new Date().toISOString(),
-    imageUrl: 'https://images.pexels.com/photos/1834399/pexels-photo-1834399.jpeg'
-  }
-];
-
 interface TripProviderProps {
   children: ReactNode;
 }
 
+
+const DEFAULT_TRIP_IMAGE = 'https://images.pexels.com/photos/3935702/pexels-photo-3935702.jpeg';
+
+const tripsCollection = collection(db, 'trips');
+
+// Everything stored under a trip document, which deleting the document leaves behind
+const TRIP_SUBCOLLECTIONS = ['messages', 'chatReads', 'expenses', 'arrivals', 'presence', 'ops', 'activity', 'vehicles', 'members', 'joins'];
+
+// Firestore's limit on writes in one batch
+const MAX_BATCH_WRITES = 500;
+
+// Deleted before the trip itself, since the rules allowing it look the trip up
+const deleteTripSubcollections = async (tripId: string) => {
+  for (const name of TRIP_SUBCOLLECTIONS) {
+    const snapshot = await getDocs(collection(tripsCollection, tripId, name));
+    for (let i = 0; i < snapshot.docs.length; i += MAX_BATCH_WRITES) {
+      const batch = writeBatch(db);
+      snapshot.docs.slice(i, i + MAX_BATCH_WRITES).forEach(entry => batch.delete(entry.ref));
+      await awaitWriteIfOnline(batch.commit());
+    }
+  }
+};
+
+const createStopId = () => `stop${Math.random().toString(36).substr(2, 9)}`;
+
+const toTrip = (snapshot: DocumentSnapshot): Trip => ({
+  ...(snapshot.data() as Omit<Trip, 'id'>),
+  id: snapshot.id
+});
+
 export function TripProvider({ children }: TripProviderProps) {
-  const [trips, setTrips] = useState<Trip[]>(mockTrips);
-  const [currentTrip, setCurrentTrip] = useState<Trip | null>(null);
+  const { currentUser } = useAuth();
+  const [trips, setTrips] = useState<Trip[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [currentTripId, setCurrentTripId] = useState<string | null>(null);
+  // The latest snapshot of the open trip; trip is null when it doesn't exist or can't be read
+  const [openTrip, setOpenTrip] = useState<{ tripId: string; trip: Trip | null } | null>(null);
+  const [stopOps, setStopOps] = useState<{ tripId: string; ops: StopOp[]; synced: boolean } | null>(null);
 
-  const createTrip = async (tripData: Omit<Trip, 'id' | 'createdAt'>): Promise<string> => {
-    await new Promise(resolve => setTimeout(resolve, 1000));
-    
-    const newTrip: Trip = {
+  // Live list of every trip the signed-in user participates in
+  useEffect(() => {
+    if (!currentUser) {
+      setTrips([]);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    const tripsQuery = query(tripsCollection, where('participants', 'array-contains', currentUser.uid));
+
+    return onSnapshot(
+      tripsQuery,
+      (snapshot) => {
+        const userTrips = snapshot.docs
+          .map(toTrip)
+          .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+        setTrips(userTrips);
+        setLoading(false);
+      },
+      (error) => {
+        console.error('Error listening to trips:', error);
+        setLoading(false);
+      }
+    );
+  }, [currentUser]);
+
+  // Keep the open trip in sync, even before it shows up in the user's trip list
+  useEffect(() => {
+    if (!currentTripId) return;
+
+    return onSnapshot(
+      doc(tripsCollection, currentTripId),
+      (snapshot) => {
+        setOpenTrip({ tripId: currentTripId, trip: snapshot.exists() ? toTrip(snapshot) : null });
+      },
+      (error) => {
+        console.error('Error listening to trip:', error);
+        setOpenTrip({ tripId: currentTripId, trip: null });
+      }
+    );
+  }, [currentTripId]);
+
+  // Stop edits on the open trip, merged into its stops as they arrive
+  useEffect(() => {
+    if (!currentTripId) {
+      setStopOps(null);
+      return;
+    }
+
+    return onSnapshot(
+      stopOpsCollection(currentTripId),
+      { includeMetadataChanges: true },
+      (snapshot) => {
+        setStopOps({
+          tripId: currentTripId,
+          ops: snapshot.docs.map(toStopOp),
+          synced: !snapshot.metadata.fromCache && !snapshot.metadata.hasPendingWrites
+        });
+      },
+      (error) => {
+        console.error('Error listening to stop edits:', error);
+      }
+    );
+  }, [currentTripId]);
+
+  // The open trip as stored; its stops are a cache, see currentTrip below
+  const currentTripDoc = openTrip && openTrip.tripId === currentTripId ? openTrip.trip : null;
+  // Still waiting for the first snapshot of the trip that was just opened
+  const currentTripPending = currentTripId !== null && openTrip?.tripId !== currentTripId;
+
+  const currentTrip = useMemo(() => {
+    if (!currentTripDoc || stopOps?.tripId !== currentTripDoc.id) return currentTripDoc;
+    return { ...currentTripDoc, stops: buildStopList(currentTripDoc.stops, stopOps.ops).stops };
+  }, [currentTripDoc, stopOps]);
+
+  // The stops array on the trip document is what the trip list shows. Each edit
+  // writes its author's view of it, which misses edits they hadn't seen yet;
+  // once in sync with the server, editors rewrite it from the merged edits.
+  useEffect(() => {
+    if (!currentTrip || !currentTripDoc || !stopOps?.synced || !canEditTrip(currentTrip, currentUser?.uid)) return;
+    if (JSON.stringify(currentTrip.stops) === JSON.stringify(currentTripDoc.stops)) return;
+
+    updateDoc(doc(tripsCollection, currentTrip.id), { stops: currentTrip.stops }).catch(error => {
+      console.error('Error updating trip stops:', error);
+    });
+  }, [currentTrip, currentTripDoc, stopOps, currentUser]);
+
+  const setCurrentTrip = useCallback((tripId: string | null) => {
+    setCurrentTripId(tripId);
+  }, []);
+
+  const createTrip = async (tripData: NewTrip): Promise<string> => {
+    if (!currentUser) {
+      throw new Error('You must be signed in to create a trip');
+    }
+
+    const tripRef = doc(tripsCollection);
+    const activity = prepareActivityEvent(tripRef.id, currentUser.uid, {
+      type: 'trip.created',
+      after: { name: tripData.name, origin: tripData.origin, destination: tripData.destination }
+    });
+
+    const batch = writeBatch(db);
+    batch.set(tripRef, {
       ...tripData,
-      id: `trip${trips.length + 1}`,
+      stops: tripData.stops.map(stop => ({ ...stop, id: createStopId() })),
+      startDate: tripData.startDate ?? null,
+      endDate: tripData.endDate ?? null,
+      participants: [currentUser.uid],
+      roles: { [currentUser.uid]: 'owner' },
+      createdBy: currentUser.uid,
       createdAt: new Date().toISOString(),
-      imageUrl: 'https://images.pexels.com/photos/3935702/pexels-photo-3935702.jpeg'
-    };
-    
-    setTrips(prevTrips => [...prevTrips, newTrip]);
-    return newTrip.id;
-  };
-
-  const joinTrip = async (inviteCode: string): Promise<boolean> => {
-    await new Promise(resolve => setTimeout(resolve, 1000));
-    
-    const tripToJoin = trips.find(trip => trip.id === inviteCode);
-    
-    if (tripToJoin) {
-      setCurrentTrip(tripToJoin);
+      imageUrl: tripData.imageUrl || DEFAULT_TRIP_IMAGE
+    });
+    batch.set(activity.ref, activity.data);
+    await awaitWriteIfOnline(batch.commit());
+
+    return tripRef.id;
+  };
+
+  const joinTrip = async (inviteCode: string): Promise<string> => {
+    if (!currentUser) {
+      throw new Error('You must be signed in to join a trip');
+    }
+
+    // Redeeming again would only spend a use and could change the traveler's role
+    const invite = await getInvite(inviteCode);
+    if (invite && trips.some(trip => trip.id === invite.tripId)) {
+      return invite.tripId;
+    }
+
+    const tripId = await redeemInvite(inviteCode, currentUser.uid);
+    setCurrentTrip(tripId);
+
+    return tripId;
+  };
+
+  // The stored trip; its stops are the baseline that stop edits are merged over
+  const findTrip = (tripId: string) =>
+    trips.find(t => t.id === tripId) || (currentTripDoc?.id === tripId ? currentTripDoc : null);
+
+  // Applies `changes` to the trip and appends `event` to its activity log in one batch
+  const commitTripChange = async (
+    tripId: string,
+    changes: DocumentData,
+    event: NewActivityEvent,
+    extra?: (batch: WriteBatch) => void
+  ) => {
+    if (!currentUser) {
+      throw new Error('You must be signed in to change a trip');
+    }
+
+    const batch = writeBatch(db);
+    batch.update(doc(tripsCollection, tripId), changes);
+    const activity = prepareActivityEvent(tripId, currentUser.uid, event);
+    batch.set(activity.ref, activity.data);
+    extra?.(batch);
+    await awaitWriteIfOnline(batch.commit());
+  };
+
+  // Records `update` as stop operations, merged over everything this client
+  // has seen of the trip so far, so it composes with other people's edits.
+  // Firestore applies local writes to the snapshot listeners immediately, so
+  // the map and side panel update without waiting for the server.
+  const writeStops = async (
+    tripId: string,
+    update: (stops: Stop[]) => { edit: StopEdit; event: NewActivityEvent } | null
+  ): Promise<boolean> => {
+    const trip = findTrip(tripId);
+    if (!trip || !currentUser) {
+      return false;
+    }
+
+    if (!canEditTrip(trip, currentUser.uid)) {
+      throw new TripPermissionError('Viewers cannot change stops');
+    }
+
+    const ops = stopOps?.tripId === tripId ? stopOps.ops : await getStopOps(tripId);
+    const state = buildStopList(trip.stops, ops);
+    const result = update(state.stops);
+    if (!result) {
+      return false;
+    }
+
+    const newOps = planStopEdit(state, result.edit, getReplicaId());
+    if (newOps.length === 0) {
       return true;
     }
-    
-    return false;
+
+    const stops = buildStopList(trip.stops, [...ops, ...newOps]).stops;
+    await commitTripChange(tripId, { stops }, result.event, batch => {
+      newOps.forEach(op => {
+        const { ref, data } = prepareStopOp(tripId, currentUser.uid, op);
+        batch.set(ref, data);
+      });
+    });
+    return true;
+  };
+
+  const addStop = (tripId: string, stopData: Omit<Stop, 'id'>) =>
+    writeStops(tripId, () => {
+      const stop: Stop = { ...stopData, id: createStopId() };
+      return {
+        edit: { type: 'add', stop },
+        event: { type: 'stop.added', subjectId: stop.id, after: stop }
+      };
+    });
+
+  const updateStop = (tripId: string, stopId: string, changes: Partial<Omit<Stop, 'id'>>) =>
+    writeStops(tripId, stops => {
+      const before = stops.find(stop => stop.id === stopId);
+      if (!before) return null;
+      return {
+        edit: { type: 'update', stopId, changes },
+        event: { type: 'stop.updated', subjectId: stopId, before, after: { ...before, ...changes } }
+      };
+    });
+
+  const removeStop = (tripId: string, stopId: string) =>
+    writeStops(tripId, stops => {
+      const before = stops.find(stop => stop.id === stopId);
+      if (!before) return null;
+      return {
+        edit: { type: 'remove', stopId },
+        event: { type: 'stop.removed', subjectId: stopId, before }
+      };
+    });
+
+  const reorderStops = (tripId: string, stopIds: string[]) =>
+    writeStops(tripId, stops => {
+      // The new order must be a permutation of the current stops
+      if (stopIds.length !== stops.length || new Set(stopIds).size !== stops.length) return null;
+      if (!stopIds.every(id => stops.some(stop => stop.id === id))) return null;
+      return {
+        edit: { type: 'reorder', stopIds },
+        event: { type: 'stops.reordered', before: stops.map(stop => stop.id), after: stopIds }
+      };
+    });
+
+  const updateTripDates = async (tripId: string, dates: Pick<Trip, 'startDate' | 'endDate'>) => {
+    const trip = findTrip(tripId);
+    if (trip && !canEditTrip(trip, currentUser?.uid)) {
+      throw new TripPermissionError('Viewers cannot change the trip dates');
+    }
+
+    const after = { startDate: dates.startDate ?? null, endDate: dates.endDate ?? null };
+    await commitTripChange(tripId, after, {
+      type: 'trip.datesChanged',
+      before: { startDate: trip?.startDate ?? null, endDate: trip?.endDate ?? null },
+      after
+    });
+  };
+
+  const updateConvoySettings = async (tripId: string, settings: ConvoySettings) => {
+    const trip = findTrip(tripId);
+    if (trip && !canEditTrip(trip, currentUser?.uid)) {
+      throw new TripPermissionError('Viewers cannot change the convoy alerts');
+    }
+
+    await commitTripChange(tripId, { convoy: settings }, {
+      type: 'trip.convoyChanged',
+      before: trip?.convoy ?? null,
+      after: settings
+    });
+  };
+
+  // Builds the complete roles map so trips that predate roles get an explicit one
+  const prepareRoles = (tripId: string, update: (roles: Record<string, TripRole>) => void) => {
+    const trip = findTrip(tripId);
+    if (!trip || !isTripOwner(trip, currentUser?.uid)) {
+      throw new TripPermissionError('Only the trip owner can manage travelers');
+    }
+
+    const roles: Record<string, TripRole> = {};
+    trip.participants.forEach(uid => {
+      roles[uid] = getTripRole(trip, uid) ?? 'editor';
+    });
+    update(roles);
+
+    return { trip, roles };
+  };
+
+  const setTravelerRole = async (tripId: string, uid: string, role: Exclude<TripRole, 'owner'>) => {
+    let before: TripRole | undefined;
+    const { roles } = prepareRoles(tripId, roles => {
+      before = roles[uid];
+      if (before === 'owner') {
+        throw new TripPermissionError('Transfer ownership before changing the owner\'s role');
+      }
+      roles[uid] = role;
+    });
+
+    await commitTripChange(tripId, { roles }, { type: 'traveler.roleChanged', subjectId: uid, before, after: role });
   };
 
-  const addStop = async (tripId: string, stopData: Omit<Stop, 'id'>): Promise<boolean> => {
-    await new Promise(resolve => setTimeout(resolve, 1000));
-    
-    const newStop: Stop = {
-      ...stopData,
-      id: `stop${Math.random().toString(36).substr(2, 9)}`
+  // Clears up after `uid` in the batch that takes them off the trip: their join record,
+  // so coming back takes a fresh invite, their seats, and what they'd shared on the trip
+  const prepareDeparture = async (tripId: string, uid: string) => {
+    const vehicles = await getVehicles(tripId);
+
+    return (batch: WriteBatch) => {
+      ['joins', 'presence', 'members', 'arrivals'].forEach(name => {
+        batch.delete(doc(tripsCollection, tripId, name, uid));
+      });
+      Object.entries(planSeatChange(vehicles, uid, null)).forEach(([vehicleId, change]) => {
+        batch.update(doc(vehiclesCollection(tripId), vehicleId), change);
+      });
     };
-    
-    setTrips(prevTrips => 
-      prevTrips.map(trip => 
-        trip.id === tripId 
-          ? { ...trip, stops: [...trip.stops, newStop] } 
-          : trip
-      )
+  };
+
+  const removeTraveler = async (tripId: string, uid: string) => {
+    let before: TripRole | undefined;
+    const { trip, roles } = prepareRoles(tripId, roles => {
+      before = roles[uid];
+      if (before === 'owner') {
+        throw new TripPermissionError('Transfer ownership before removing the owner');
+      }
+      delete roles[uid];
+    });
+
+    await commitTripChange(
+      tripId,
+      { participants: trip.participants.filter(participant => participant !== uid), roles },
+      { type: 'traveler.removed', subjectId: uid, before },
+      await prepareDeparture(tripId, uid)
     );
-    
-    if (currentTrip && currentTrip.id === tripId) {
-      setCurrentTrip({
-        ...currentTrip,
-        stops: [...currentTrip.stops, newStop]
+  };
+
+  const transferOwnership = async (tripId: string, uid: string) => {
+    let previousOwner: string | undefined;
+    const { roles } = prepareRoles(tripId, roles => {
+      if (!(uid in roles)) {
+        throw new Error('The new owner must be a traveler on this trip');
+      }
+      Object.keys(roles).forEach(participant => {
+        if (roles[participant] === 'owner') {
+          previousOwner = participant;
+          roles[participant] = 'editor';
+        }
       });
+      roles[uid] = 'owner';
+    });
+
+    await commitTripChange(
+      tripId,
+      { roles },
+      { type: 'trip.ownershipTransferred', subjectId: uid, before: previousOwner, after: uid }
+    );
+  };
+
+  const leaveTrip = async (tripId: string) => {
+    const trip = findTrip(tripId);
+    if (!trip || !currentUser) {
+      throw new Error('You are not on this trip');
     }
-    
-    return true;
+
+    const uid = currentUser.uid;
+    const role = getTripRole(trip, uid);
+    if (role === 'owner') {
+      throw new TripPermissionError('Transfer ownership or delete the trip before leaving it');
+    }
+
+    const changes: DocumentData = { participants: trip.participants.filter(participant => participant !== uid) };
+    // Trips from before roles have no map to take you out of
+    if (trip.roles) {
+      const roles = { ...trip.roles };
+      delete roles[uid];
+      changes.roles = roles;
+    }
+
+    await commitTripChange(
+      tripId,
+      changes,
+      { type: 'traveler.left', subjectId: uid, before: role },
+      await prepareDeparture(tripId, uid)
+    );
+
+    if (currentTripId === tripId) {
+      setCurrentTrip(null);
+    }
+  };
+
+  const archiveTrip = async (tripId: string, archived: boolean) => {
+    const trip = findTrip(tripId);
+    if (!trip || !isTripOwner(trip, currentUser?.uid)) {
+      throw new TripPermissionError('Only the trip owner can archive it');
+    }
+
+    await commitTripChange(
+      tripId,
+      { archivedAt: archived ? new Date().toISOString() : null },
+      { type: archived ? 'trip.archived' : 'trip.unarchived' }
+    );
+  };
+
+  const deleteTrip = async (tripId: string) => {
+    const trip = findTrip(tripId);
+    if (!trip || !isTripOwner(trip, currentUser?.uid)) {
+      throw new TripPermissionError('Only the trip owner can delete it');
+    }
+
+    await deleteTripSubcollections(tripId);
+    const invites = await getDocs(query(invitesCollection, where('tripId', '==', tripId)));
+
+    const batch = writeBatch(db);
+    batch.delete(doc(tripsCollection, tripId));
+    // Outstanding invite links stop working instead of pointing at nothing
+    invites.docs
+      .filter(invite => !invite.data().revoked)
+      .forEach(invite => batch.update(invite.ref, { revoked: true }));
+    await awaitWriteIfOnline(batch.commit());
+
+    if (currentTripId === tripId) {
+      setCurrentTrip(null);
+    }
+  };
+
+  const duplicateTrip = async (tripId: string) => {
+    const trip = findTrip(tripId);
+    if (!trip) {
+      throw new Error('Trip not found');
+    }
+
+    // Copy the merged stops, not the possibly stale array on the trip document
+    const ops = stopOps?.tripId === tripId ? stopOps.ops : await getStopOps(tripId);
+    const stops = buildStopList(trip.stops, ops).stops.map(stop => ({
+      name: stop.name,
+      location: stop.location,
+      // The copy gets new dates, so planned arrival times don't carry over
+      dwellMinutes: stop.dwellMinutes ?? null,
+      arrivalRadius: stop.arrivalRadius ?? null
+    }));
+
+    return createTrip({
+      name: `${trip.name} (copy)`,
+      origin: trip.origin,
+      destination: trip.destination,
+      stops,
+      imageUrl: trip.imageUrl
+    });
   };
 
   const value = {
     trips,
     currentTrip,
+    loading: loading || currentTripPending,
     createTrip,
     joinTrip,
     addStop,
+    updateStop,
+    removeStop,
+    reorderStops,
+    updateTripDates,
+    updateConvoySettings,
+    setTravelerRole,
+    removeTraveler,
+    transferOwnership,
+    leaveTrip,
+    archiveTrip,
+    deleteTrip,
+    duplicateTrip,
     setCurrentTrip
   };
 
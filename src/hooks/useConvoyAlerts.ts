@@ -0,0 +1,41 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Trip } from '../contexts/TripContext';
+import { Route } from '../services/routing';
+import { ParticipantPresence } from './useTripPresence';
+import { getTripWaypoints } from './useTripRoute';
+import { DEFAULT_CONVOY_SETTINGS, INITIAL_CONVOY_STATE, evaluateConvoy } from '../utils/convoyMonitor';
+
+/**
+ * Separation and off-route alerts for the trip, re-evaluated on every position
+ * update. Only live positions count; until the road route is available, only
+ * separation is checked, along straight lines between the waypoints.
+ */
+export function useConvoyAlerts(
+  trip: Trip | null,
+  locations: ParticipantPresence[],
+  route: Route | null,
+  now: number
+) {
+  const tripId = trip?.id;
+  const settings = trip?.convoy ?? DEFAULT_CONVOY_SETTINGS;
+  const routePath = route?.path ?? null;
+  const waypoints = useMemo(() => (trip ? getTripWaypoints(trip) : []), [trip]);
+
+  const [state, setState] = useState(INITIAL_CONVOY_STATE);
+
+  useEffect(() => {
+    setState(INITIAL_CONVOY_STATE);
+  }, [tripId]);
+
+  useEffect(() => {
+    if (!trip) return;
+
+    const positions = locations
+      .filter(location => location.status === 'live' && trip.participants.includes(location.uid))
+      .map(location => ({ uid: location.uid, location: location.location }));
+
+    setState(previous => evaluateConvoy(positions, routePath, waypoints, settings, previous, now));
+  }, [trip, locations, routePath, waypoints, settings, now]);
+
+  return state.alerts;
+}
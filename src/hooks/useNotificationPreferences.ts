@@ -0,0 +1,37 @@
+import { useState, useEffect } from 'react';
+import { onSnapshot } from 'firebase/firestore';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  notificationPreferencesDoc,
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  NotificationPreferences
+} from '../services/notifications';
+
+// The signed-in user's notification choices, shared by all their devices
+export function useNotificationPreferences() {
+  const { currentUser } = useAuth();
+  const uid = currentUser?.uid;
+  const [preferences, setPreferences] = useState<NotificationPreferences>(DEFAULT_NOTIFICATION_PREFERENCES);
+
+  useEffect(() => {
+    setPreferences(DEFAULT_NOTIFICATION_PREFERENCES);
+    if (!uid) return;
+
+    return onSnapshot(
+      notificationPreferencesDoc(uid),
+      (snapshot) => {
+        const data = snapshot.data() as Partial<NotificationPreferences> | undefined;
+        // Event types added since the user last saved default to on
+        setPreferences({
+          enabled: data?.enabled ?? DEFAULT_NOTIFICATION_PREFERENCES.enabled,
+          events: { ...DEFAULT_NOTIFICATION_PREFERENCES.events, ...data?.events }
+        });
+      },
+      (error) => {
+        console.error('Error listening to notification preferences:', error);
+      }
+    );
+  }, [uid]);
+
+  return preferences;
+}
@@ -0,0 +1,84 @@
+import { useState, useEffect, useMemo } from 'react';
+import { doc, onSnapshot } from 'firebase/firestore';
+import { Trip } from '../contexts/TripContext';
+import {
+  usersCollection,
+  tripMembersCollection,
+  toTravelerProfile,
+  TravelerProfile,
+  TripMemberProfile,
+  UserProfile
+} from '../services/profiles';
+
+/**
+ * Names, avatars and marker colours for everyone on the trip, keyed by uid.
+ * Every participant has an entry, falling back to defaults until their
+ * profile loads.
+ */
+export function useTravelerProfiles(trip: Trip | null): Record<string, TravelerProfile> {
+  const [users, setUsers] = useState<Record<string, UserProfile>>({});
+  const [members, setMembers] = useState<Record<string, TripMemberProfile>>({});
+
+  const tripId = trip?.id;
+  const participants = trip?.participants;
+  // Stable across snapshots that don't change who is on the trip
+  const participantsKey = participants ? participants.join(',') : '';
+
+  useEffect(() => {
+    if (!participantsKey) {
+      setUsers({});
+      return;
+    }
+
+    const unsubscribes = participantsKey.split(',').map(uid =>
+      onSnapshot(
+        doc(usersCollection, uid),
+        (snapshot) => {
+          setUsers(current => {
+            const next = { ...current };
+            if (snapshot.exists()) {
+              next[uid] = { ...(snapshot.data() as Omit<UserProfile, 'uid'>), uid };
+            } else {
+              delete next[uid];
+            }
+            return next;
+          });
+        },
+        (error) => {
+          console.error('Error listening to user profile:', error);
+        }
+      )
+    );
+
+    return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+  }, [participantsKey]);
+
+  useEffect(() => {
+    if (!tripId) {
+      setMembers({});
+      return;
+    }
+
+    return onSnapshot(
+      tripMembersCollection(tripId),
+      (snapshot) => {
+        const next: Record<string, TripMemberProfile> = {};
+        snapshot.docs.forEach(memberDoc => {
+          next[memberDoc.id] = memberDoc.data() as TripMemberProfile;
+        });
+        setMembers(next);
+      },
+      (error) => {
+        console.error('Error listening to trip members:', error);
+      }
+    );
+  }, [tripId]);
+
+  return useMemo(() => {
+    const profiles: Record<string, TravelerProfile> = {};
+    (participants || []).forEach(uid => {
+      profiles[uid] = toTravelerProfile(uid, users[uid], members[uid]);
+    });
+    return profiles;
+  }, [participants, users, members]);
+}
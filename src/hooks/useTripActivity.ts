@@ -0,0 +1,37 @@
+import { useState, useEffect } from 'react';
+import { onSnapshot, query, orderBy, limit } from 'firebase/firestore';
+import { activityCollection, toActivityEvent, ActivityEvent } from '../services/activity';
+
+const HISTORY_LIMIT = 500;
+
+// The trip's most recent activity, newest first
+export function useTripActivity(tripId: string | undefined) {
+  const [events, setEvents] = useState<ActivityEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setEvents([]);
+    setError(null);
+    if (!tripId) {
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    return onSnapshot(
+      query(activityCollection(tripId), orderBy('createdAt', 'desc'), limit(HISTORY_LIMIT)),
+      (snapshot) => {
+        setEvents(snapshot.docs.map(toActivityEvent));
+        setLoading(false);
+      },
+      (err) => {
+        console.error('Error listening to activity:', err);
+        setError('Could not load activity.');
+        setLoading(false);
+      }
+    );
+  }, [tripId]);
+
+  return { events, loading, error };
+}
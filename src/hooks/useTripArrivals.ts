@@ -0,0 +1,90 @@
+import { useState, useEffect, useRef } from 'react';
+import { onSnapshot } from 'firebase/firestore';
+import { Trip } from '../contexts/TripContext';
+import { useAuth } from '../contexts/AuthContext';
+import { ParticipantPresence } from './useTripPresence';
+import {
+  arrivalsCollection,
+  recordGeofenceCrossing,
+  emitGeofenceEvent,
+  TravelerArrivals
+} from '../services/arrivals';
+import { getTripGeofences, detectGeofenceCrossings } from '../utils/geofence';
+
+/**
+ * Watches everyone's live positions against the trip's origin, stops and
+ * destination, emitting geofence events as they arrive and leave. Each
+ * traveler's own device records their visits to `trips/{tripId}/arrivals/{uid}`.
+ */
+export function useTripArrivals(trip: Trip | null, locations: ParticipantPresence[]) {
+  const { currentUser } = useAuth();
+  const tripId = trip?.id;
+
+  // Null until the first snapshot, so nobody is treated as arriving somewhere they already were
+  const [arrivals, setArrivals] = useState<Record<string, TravelerArrivals> | null>(null);
+
+  // Which geofences each traveler is in, and the last fix looked at, per traveler
+  const insideRef = useRef<Record<string, string[]>>({});
+  const lastFixRef = useRef<Record<string, number>>({});
+
+  useEffect(() => {
+    setArrivals(null);
+    insideRef.current = {};
+    lastFixRef.current = {};
+    if (!tripId) return;
+
+    return onSnapshot(
+      arrivalsCollection(tripId),
+      (snapshot) => {
+        const byTraveler: Record<string, TravelerArrivals> = {};
+        snapshot.docs.forEach(arrivalDoc => {
+          byTraveler[arrivalDoc.id] = arrivalDoc.data() as TravelerArrivals;
+        });
+        setArrivals(byTraveler);
+      },
+      (error) => {
+        console.error('Error listening to arrivals:', error);
+      }
+    );
+  }, [tripId]);
+
+  useEffect(() => {
+    if (!trip || !arrivals) return;
+
+    const geofences = getTripGeofences(trip);
+
+    locations.forEach(location => {
+      if (location.status !== 'live' || !trip.participants.includes(location.uid)) return;
+      if (lastFixRef.current[location.uid] === location.updatedAt) return;
+      lastFixRef.current[location.uid] = location.updatedAt;
+
+      // Start from the recorded visits that haven't ended
+      const inside = insideRef.current[location.uid] ?? Object.entries(arrivals[location.uid] ?? {})
+        .filter(([, record]) => record.departedAt === null)
+        .map(([geofenceId]) => geofenceId);
+
+      const result = detectGeofenceCrossings(geofences, location.location, location.accuracy, inside);
+      insideRef.current[location.uid] = result.inside;
+
+      result.crossings.forEach(crossing => {
+        const geofence = geofences.find(g => g.id === crossing.geofenceId)!;
+        emitGeofenceEvent({
+          tripId: trip.id,
+          uid: location.uid,
+          geofenceId: geofence.id,
+          name: geofence.name,
+          type: crossing.type,
+          at: location.updatedAt
+        });
+
+        if (location.uid === currentUser?.uid) {
+          recordGeofenceCrossing(trip.id, location.uid, geofence.id, crossing.type, location.updatedAt).catch(err => {
+            console.error('Error recording arrival:', err);
+          });
+        }
+      });
+    });
+  }, [trip, locations, arrivals, currentUser]);
+
+  return arrivals ?? {};
+}
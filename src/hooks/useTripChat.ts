@@ -0,0 +1,77 @@
+import { useState, useEffect } from 'react';
+import { doc, onSnapshot, query, orderBy, where, limit, limitToLast, Timestamp } from 'firebase/firestore';
+import { messagesCollection, chatReadsCollection, toChatMessage, toMillis, ChatMessage } from '../services/chat';
+
+const HISTORY_LIMIT = 200;
+// Badges read "99+" beyond this, so there's no point counting further
+const UNREAD_LIMIT = 100;
+
+// The most recent messages on the trip, oldest first
+export function useTripChat(tripId: string | undefined) {
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setMessages([]);
+    setError(null);
+    if (!tripId) return;
+
+    return onSnapshot(
+      query(messagesCollection(tripId), orderBy('createdAt'), limitToLast(HISTORY_LIMIT)),
+      (snapshot) => {
+        setMessages(snapshot.docs.map(toChatMessage));
+      },
+      (err) => {
+        console.error('Error listening to chat:', err);
+        setError('Could not load messages.');
+      }
+    );
+  }, [tripId]);
+
+  return { messages, error };
+}
+
+// When `uid` last read the trip's chat, in the server's epoch milliseconds; 0 if never
+export function useChatLastRead(tripId: string | undefined, uid: string | undefined) {
+  const [lastReadAt, setLastReadAt] = useState<number | null>(null);
+
+  useEffect(() => {
+    setLastReadAt(null);
+    if (!tripId || !uid) return;
+
+    return onSnapshot(
+      doc(chatReadsCollection(tripId), uid),
+      (snapshot) => {
+        setLastReadAt(snapshot.exists() ? toMillis(snapshot.data({ serverTimestamps: 'estimate' }).lastReadAt) : 0);
+      },
+      (err) => {
+        console.error('Error listening to chat read state:', err);
+      }
+    );
+  }, [tripId, uid]);
+
+  return lastReadAt;
+}
+
+// Messages from other travelers since `uid` last read the chat
+export function useUnreadCount(tripId: string | undefined, uid: string | undefined) {
+  const lastReadAt = useChatLastRead(tripId, uid);
+  const [count, setCount] = useState(0);
+
+  useEffect(() => {
+    setCount(0);
+    if (!tripId || !uid || lastReadAt === null) return;
+
+    return onSnapshot(
+      query(messagesCollection(tripId), where('createdAt', '>', Timestamp.fromMillis(lastReadAt)), orderBy('createdAt'), limit(UNREAD_LIMIT)),
+      (snapshot) => {
+        setCount(snapshot.docs.filter(message => message.data().authorId !== uid).length);
+      },
+      (err) => {
+        console.error('Error counting unread messages:', err);
+      }
+    );
+  }, [tripId, uid, lastReadAt]);
+
+  return count;
+}
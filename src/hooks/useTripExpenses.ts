@@ -0,0 +1,26 @@
+import { useState, useEffect } from 'react';
+import { onSnapshot, query, orderBy } from 'firebase/firestore';
+import { expensesCollection, toExpense } from '../services/expenses';
+import { Expense } from '../utils/expenses';
+
+// The trip's expenses, oldest first
+export function useTripExpenses(tripId: string | undefined) {
+  const [expenses, setExpenses] = useState<Expense[]>([]);
+
+  useEffect(() => {
+    setExpenses([]);
+    if (!tripId) return;
+
+    return onSnapshot(
+      query(expensesCollection(tripId), orderBy('createdAt')),
+      (snapshot) => {
+        setExpenses(snapshot.docs.map(toExpense));
+      },
+      (error) => {
+        console.error('Error listening to expenses:', error);
+      }
+    );
+  }, [tripId]);
+
+  return expenses;
+}
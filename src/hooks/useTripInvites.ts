@@ -0,0 +1,31 @@
+import { useState, useEffect } from 'react';
+import { onSnapshot, query, where } from 'firebase/firestore';
+import { invitesCollection, toInvite, Invite } from '../services/invites';
+
+// Every invite ever issued for the trip, newest first
+export function useTripInvites(tripId: string | undefined) {
+  const [invites, setInvites] = useState<Invite[]>([]);
+
+  useEffect(() => {
+    if (!tripId) {
+      setInvites([]);
+      return;
+    }
+
+    return onSnapshot(
+      query(invitesCollection, where('tripId', '==', tripId)),
+      (snapshot) => {
+        setInvites(
+          snapshot.docs
+            .map(toInvite)
+            .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+        );
+      },
+      (error) => {
+        console.error('Error listening to invites:', error);
+      }
+    );
+  }, [tripId]);
+
+  return invites;
+}
@@ -0,0 +1,123 @@
+import { useEffect, useRef } from 'react';
+import { onSnapshot, query, where, Timestamp } from 'firebase/firestore';
+import { Trip, Stop } from '../contexts/TripContext';
+import { useAuth } from '../contexts/AuthContext';
+import { useNotificationPreferences } from './useNotificationPreferences';
+import { activityCollection, toActivityEvent } from '../services/activity';
+import { messagesCollection, toChatMessage } from '../services/chat';
+import { subscribeToGeofenceEvents } from '../services/arrivals';
+import { deliverLocalPush, NotificationEvent, NotificationPreferences, PushPayload } from '../services/notifications';
+import { TravelerProfile } from '../services/profiles';
+import { ConvoyAlert, ConvoyReference, describeConvoyAlert } from '../utils/convoyMonitor';
+
+// While the user is looking at the trip, the in-app UI already shows all of this
+const isPageInView = () => document.visibilityState === 'visible' && document.hasFocus();
+
+const notify = (preferences: NotificationPreferences, event: NotificationEvent, payload: PushPayload) => {
+  if (!preferences.enabled || !preferences.events[event] || isPageInView()) return;
+
+  deliverLocalPush(payload).catch(err => {
+    console.error('Error showing notification:', err);
+  });
+};
+
+/**
+ * Turns what happens on the open trip into browser notifications, for the
+ * event types the user opted into. Only things that happen from now on notify,
+ * never history, and never the user's own actions.
+ */
+export function useTripNotifications(
+  trip: Trip | null,
+  profiles: Record<string, TravelerProfile>,
+  convoyAlerts: ConvoyAlert[],
+  convoyReference: ConvoyReference
+) {
+  const { currentUser } = useAuth();
+  const uid = currentUser?.uid;
+  const tripId = trip?.id;
+  const preferences = useNotificationPreferences();
+
+  // Read from listeners that shouldn't resubscribe whenever these change
+  const latest = useRef({ trip, profiles, preferences });
+  latest.current = { trip, profiles, preferences };
+
+  const notifiedAlerts = useRef(new Set<string>());
+
+  useEffect(() => {
+    if (!tripId || !uid) return;
+
+    const since = Date.now();
+    const nameOf = (travelerId: string) => latest.current.profiles[travelerId]?.name ?? 'Someone';
+    const notifyTrip = (event: NotificationEvent, tag: string, body: string) =>
+      notify(latest.current.preferences, event, {
+        title: latest.current.trip?.name ?? 'MapSync',
+        body,
+        tag,
+        url: `/trip/${tripId}`
+      });
+
+    const unsubscribeActivity = onSnapshot(
+      query(activityCollection(tripId), where('createdAt', '>', since)),
+      (snapshot) => {
+        snapshot.docChanges().forEach(change => {
+          if (change.type !== 'added') return;
+          const event = toActivityEvent(change.doc);
+          if (event.actorId === uid) return;
+
+          if (event.type === 'trip.joined') {
+            notifyTrip('joined', `activity-${event.id}`, `${nameOf(event.actorId)} joined the trip`);
+          } else if (event.type === 'stop.added') {
+            notifyTrip('stopAdded', `activity-${event.id}`, `${nameOf(event.actorId)} added stop ${(event.after as Stop).name}`);
+          }
+        });
+      },
+      (error) => {
+        console.error('Error listening to activity for notifications:', error);
+      }
+    );
+
+    const unsubscribeChat = onSnapshot(
+      query(messagesCollection(tripId), where('createdAt', '>', Timestamp.fromMillis(since))),
+      (snapshot) => {
+        snapshot.docChanges().forEach(change => {
+          if (change.type !== 'added') return;
+          const message = toChatMessage(change.doc);
+          if (message.authorId === uid) return;
+
+          notifyTrip('chat', `chat-${message.id}`, `${nameOf(message.authorId)}: ${message.text || 'shared a place'}`);
+        });
+      },
+      (error) => {
+        console.error('Error listening to chat for notifications:', error);
+      }
+    );
+
+    const unsubscribeGeofences = subscribeToGeofenceEvents(event => {
+      if (event.tripId !== tripId || event.type !== 'arrive' || event.uid === uid) return;
+      notifyTrip('arrived', `arrive-${event.uid}-${event.geofenceId}-${event.at}`, `${nameOf(event.uid)} arrived at ${event.name}`);
+    });
+
+    return () => {
+      unsubscribeActivity();
+      unsubscribeChat();
+      unsubscribeGeofences();
+    };
+  }, [tripId, uid]);
+
+  // Each alert notifies once, when it's raised
+  useEffect(() => {
+    convoyAlerts.forEach(alert => {
+      const tag = `convoy-${alert.uid}-${alert.type}-${alert.raisedAt}`;
+      if (notifiedAlerts.current.has(tag)) return;
+      notifiedAlerts.current.add(tag);
+
+      const subject = alert.uid === uid ? null : latest.current.profiles[alert.uid]?.name ?? 'A traveler';
+      notify(latest.current.preferences, 'offRoute', {
+        title: latest.current.trip?.name ?? 'MapSync',
+        body: describeConvoyAlert(alert, convoyReference, subject),
+        tag,
+        url: `/trip/${tripId}`
+      });
+    });
+  }, [convoyAlerts, convoyReference, tripId, uid]);
+}
@@ -0,0 +1,140 @@
+import { useState, useEffect, useMemo } from 'react';
+import { collection, doc, onSnapshot, setDoc, updateDoc } from 'firebase/firestore';
+import { db } from '../config/firebase';
+import { useAuth } from '../contexts/AuthContext';
+
+export interface ParticipantLocation {
+  uid: string;
+  displayName: string | null;
+  photoURL: string | null;
+  location: {
+    lat: number;
+    lng: number;
+  };
+  heading: number | null;
+  speed: number | null;
+  accuracy: number;
+  updatedAt: number;
+  online: boolean;
+}
+
+export type PresenceStatus = 'live' | 'stale' | 'offline';
+
+export interface ParticipantPresence extends ParticipantLocation {
+  status: PresenceStatus;
+}
+
+// A position older than this is shown as stale, and as offline past the second limit
+export const STALE_AFTER_MS = 60 * 1000;
+export const OFFLINE_AFTER_MS = 5 * 60 * 1000;
+
+// Don't write to Firestore more often than this, however often the GPS fires
+const PUBLISH_INTERVAL_MS = 5 * 1000;
+const STATUS_REFRESH_MS = 15 * 1000;
+
+export const getPresenceStatus = (location: ParticipantLocation, now: number): PresenceStatus => {
+  const age = now - location.updatedAt;
+  if (!location.online || age > OFFLINE_AFTER_MS) return 'offline';
+  if (age > STALE_AFTER_MS) return 'stale';
+  return 'live';
+};
+
+/**
+ * Publishes the signed-in user's position to `trips/{tripId}/presence/{uid}`
+ * and listens to everyone else's.
+ */
+export function useTripPresence(tripId: string | undefined) {
+  const { currentUser } = useAuth();
+  const [locations, setLocations] = useState<ParticipantLocation[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!tripId) return;
+
+    return onSnapshot(
+      collection(db, 'trips', tripId, 'presence'),
+      (snapshot) => {
+        setLocations(snapshot.docs.map(presenceDoc => ({
+          ...(presenceDoc.data() as Omit<ParticipantLocation, 'uid'>),
+          uid: presenceDoc.id
+        })));
+      },
+      (err) => {
+        console.error('Error listening to presence:', err);
+      }
+    );
+  }, [tripId]);
+
+  useEffect(() => {
+    if (!tripId || !currentUser) return;
+
+    if (!navigator.geolocation) {
+      setError('Location sharing is not supported by this browser.');
+      return;
+    }
+
+    const presenceRef = doc(db, 'trips', tripId, 'presence', currentUser.uid);
+    let lastPublishedAt = 0;
+
+    const watchId = navigator.geolocation.watchPosition(
+      (position) => {
+        if (position.timestamp - lastPublishedAt < PUBLISH_INTERVAL_MS) return;
+        lastPublishedAt = position.timestamp;
+        setError(null);
+
+        const { latitude, longitude, heading, speed, accuracy } = position.coords;
+        const location: Omit<ParticipantLocation, 'uid'> = {
+          displayName: currentUser.displayName,
+          photoURL: currentUser.photoURL,
+          location: { lat: latitude, lng: longitude },
+          // Browsers report NaN heading while stationary
+          heading: heading === null || Number.isNaN(heading) ? null : heading,
+          speed,
+          accuracy,
+          updatedAt: Date.now(),
+          online: true
+        };
+
+        setDoc(presenceRef, location).catch((err) => {
+          console.error('Error publishing location:', err);
+        });
+      },
+      (err) => {
+        console.error('Error watching location:', err);
+        setError(
+          err.code === err.PERMISSION_DENIED
+            ? 'Location access is blocked. Enable it to share your position with the group.'
+            : 'Unable to get your current location.'
+        );
+      },
+      { enableHighAccuracy: true, maximumAge: 10 * 1000, timeout: 30 * 1000 }
+    );
+
+    const goOffline = () => {
+      // The document may not exist yet if we never got a fix
+      updateDoc(presenceRef, { online: false }).catch(() => {});
+    };
+
+    window.addEventListener('pagehide', goOffline);
+
+    return () => {
+      navigator.geolocation.clearWatch(watchId);
+      window.removeEventListener('pagehide', goOffline);
+      goOffline();
+    };
+  }, [tripId, currentUser]);
+
+  // Re-evaluate live/stale/offline even when no new snapshot arrives
+  useEffect(() => {
+    const interval = window.setInterval(() => setNow(Date.now()), STATUS_REFRESH_MS);
+    return () => window.clearInterval(interval);
+  }, []);
+
+  const presence = useMemo<ParticipantPresence[]>(
+    () => locations.map(location => ({ ...location, status: getPresenceStatus(location, now) })),
+    [locations, now]
+  );
+
+  return { locations: presence, error, now };
+}
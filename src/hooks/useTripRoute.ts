@@ -0,0 +1,64 @@
+import { useState, useEffect, useRef } from 'react';
+import { Trip } from '../contexts/TripContext';
+import { getCachedRoute, getTripRoute, waypointsKey, Route } from '../services/routing';
+
+export const getTripWaypoints = (trip: Trip) => [
+  trip.origin.location,
+  ...trip.stops.map(stop => stop.location),
+  trip.destination.location
+];
+
+/**
+ * Road route through the trip's origin, stops and destination. Recomputed only
+ * when the waypoints change; `route` is null while loading or if routing failed.
+ */
+export function useTripRoute(trip: Trip | null) {
+  const tripId = trip?.id;
+  const waypoints = trip ? getTripWaypoints(trip) : [];
+  const key = waypointsKey(waypoints);
+  // A new array on every render; `key` is what tells the effect they changed
+  const latestWaypoints = useRef(waypoints);
+  latestWaypoints.current = waypoints;
+
+  const [route, setRoute] = useState<Route | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const waypoints = latestWaypoints.current;
+    // An aborted request never clears its own loading flag, so every branch sets it
+    if (!tripId || waypoints.length < 2) {
+      setRoute(null);
+      setLoading(false);
+      return;
+    }
+
+    const cached = getCachedRoute(tripId, waypoints);
+    if (cached) {
+      setRoute(cached);
+      setLoading(false);
+      setError(null);
+      return;
+    }
+
+    const controller = new AbortController();
+    setRoute(null);
+    setLoading(true);
+    setError(null);
+
+    getTripRoute(tripId, waypoints, { signal: controller.signal })
+      .then(setRoute)
+      .catch((err) => {
+        if (controller.signal.aborted) return;
+        console.error('Error computing route:', err);
+        setError('Road route unavailable. Showing straight lines between stops.');
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false);
+      });
+
+    return () => controller.abort();
+  }, [tripId, key]);
+
+  return { route, loading, error };
+}
@@ -0,0 +1,21 @@
+import { useState, useEffect } from 'react';
+import { doc, onSnapshot } from 'firebase/firestore';
+import { db } from '../config/firebase';
+
+// True while the trip has local changes the server hasn't acknowledged yet
+export const useTripSyncState = (tripId: string | undefined) => {
+  const [hasPendingWrites, setHasPendingWrites] = useState(false);
+
+  useEffect(() => {
+    if (!tripId) return;
+
+    return onSnapshot(
+      doc(db, 'trips', tripId),
+      { includeMetadataChanges: true },
+      (snapshot) => setHasPendingWrites(snapshot.metadata.hasPendingWrites),
+      (error) => console.error('Error watching trip sync state:', error)
+    );
+  }, [tripId]);
+
+  return hasPendingWrites;
+};
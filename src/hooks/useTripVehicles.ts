@@ -0,0 +1,25 @@
+import { useState, useEffect } from 'react';
+import { onSnapshot, query, orderBy } from 'firebase/firestore';
+import { vehiclesCollection, toVehicle, Vehicle } from '../services/vehicles';
+
+// The trip's cars, oldest first so they keep their place as cars are added
+export function useTripVehicles(tripId: string | undefined) {
+  const [vehicles, setVehicles] = useState<Vehicle[]>([]);
+
+  useEffect(() => {
+    setVehicles([]);
+    if (!tripId) return;
+
+    return onSnapshot(
+      query(vehiclesCollection(tripId), orderBy('createdAt')),
+      (snapshot) => {
+        setVehicles(snapshot.docs.map(toVehicle));
+      },
+      (error) => {
+        console.error('Error listening to vehicles:', error);
+      }
+    );
+  }, [tripId]);
+
+  return vehicles;
+}
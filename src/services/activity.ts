@@ -0,0 +1,106 @@
+import { collection, doc, DocumentSnapshot } from 'firebase/firestore';
+import { db } from '../config/firebase';
+
+/**
+ * Payloads by type (subject, before → after):
+ *   trip.created               –, null → { name, origin, destination }
+ *   trip.joined                joiner uid, null → role
+ *   trip.datesChanged          –, { startDate, endDate } → { startDate, endDate }
+ *   trip.convoyChanged         –, ConvoySettings | null → ConvoySettings
+ *   trip.archived              –, –
+ *   trip.unarchived            –, –
+ *   stop.added                 stop id, null → Stop
+ *   stop.updated               stop id, Stop → Stop
+ *   stop.removed               stop id, Stop → null
+ *   stops.reordered            –, stop ids → stop ids
+ *   traveler.roleChanged       traveler uid, role → role
+ *   traveler.removed           traveler uid, role → null
+ *   traveler.left              traveler uid, role → null
+ *   trip.ownershipTransferred  new owner uid, previous owner uid → new owner uid
+ *   vehicle.added              vehicle id, null → { name, color }
+ *   vehicle.removed            vehicle id, { name, color } → null
+ *   traveler.seated            traveler uid, { vehicleId, seat, vehicleName } | null → the same
+ *   expense.added              expense id, null → { description, amount, currency, paidBy }
+ *   expense.removed            expense id, { description, amount, currency, paidBy } → null
+ */
+export type ActivityType =
+  | 'trip.created'
+  | 'trip.joined'
+  | 'trip.datesChanged'
+  | 'trip.convoyChanged'
+  | 'trip.archived'
+  | 'trip.unarchived'
+  | 'stop.added'
+  | 'stop.updated'
+  | 'stop.removed'
+  | 'stops.reordered'
+  | 'traveler.roleChanged'
+  | 'traveler.removed'
+  | 'traveler.left'
+  | 'trip.ownershipTransferred'
+  | 'vehicle.added'
+  | 'vehicle.removed'
+  | 'traveler.seated'
+  | 'expense.added'
+  | 'expense.removed';
+
+export interface ActivityEvent {
+  id: string;
+  type: ActivityType;
+  actorId: string;
+  // Epoch milliseconds, from the actor's clock
+  createdAt: number;
+  // The stop or traveler the event is about, if any
+  subjectId: string | null;
+  before: unknown;
+  after: unknown;
+}
+
+export type NewActivityEvent = Pick<ActivityEvent, 'type'> &
+  Partial<Pick<ActivityEvent, 'subjectId' | 'before' | 'after'>>;
+
+export const ACTIVITY_TYPE_LABELS: Record<ActivityType, string> = {
+  'trip.created': 'Trip created',
+  'trip.joined': 'Traveler joined',
+  'trip.datesChanged': 'Dates changed',
+  'trip.convoyChanged': 'Convoy alerts changed',
+  'trip.archived': 'Trip archived',
+  'trip.unarchived': 'Trip unarchived',
+  'stop.added': 'Stop added',
+  'stop.updated': 'Stop edited',
+  'stop.removed': 'Stop removed',
+  'stops.reordered': 'Stops reordered',
+  'traveler.roleChanged': 'Role changed',
+  'traveler.removed': 'Traveler removed',
+  'traveler.left': 'Traveler left',
+  'trip.ownershipTransferred': 'Ownership transferred',
+  'vehicle.added': 'Car added',
+  'vehicle.removed': 'Car removed',
+  'traveler.seated': 'Seat changed',
+  'expense.added': 'Expense added',
+  'expense.removed': 'Expense removed'
+};
+
+export const activityCollection = (tripId: string) => collection(db, 'trips', tripId, 'activity');
+
+export const toActivityEvent = (snapshot: DocumentSnapshot): ActivityEvent => ({
+  ...(snapshot.data() as Omit<ActivityEvent, 'id'>),
+  id: snapshot.id
+});
+
+/**
+ * A new event's ref and data, to be written in the same batch or transaction
+ * as the change it records so the log never disagrees with the trip.
+ */
+export const prepareActivityEvent = (tripId: string, actorId: string, event: NewActivityEvent) => ({
+  ref: doc(activityCollection(tripId)),
+  data: {
+    type: event.type,
+    actorId,
+    createdAt: Date.now(),
+    subjectId: event.subjectId ?? null,
+    // Firestore rejects undefined
+    before: event.before ?? null,
+    after: event.after ?? null
+  }
+});
@@ -0,0 +1,59 @@
+import { collection, doc, setDoc } from 'firebase/firestore';
+import { db } from '../config/firebase';
+import { GeofenceCrossingType } from '../utils/geofence';
+
+export interface ArrivalRecord {
+  // Epoch milliseconds, from the traveler's position fix
+  arrivedAt: number;
+  // Null while they're still there
+  departedAt: number | null;
+}
+
+// One document per traveler, keyed by geofence id ('origin', 'destination' or a stop id)
+export type TravelerArrivals = Record<string, ArrivalRecord>;
+
+export interface GeofenceEvent {
+  tripId: string;
+  uid: string;
+  geofenceId: string;
+  // The place's name when the event fired, since the stop may be renamed or removed later
+  name: string;
+  type: GeofenceCrossingType;
+  at: number;
+}
+
+export type GeofenceListener = (event: GeofenceEvent) => void;
+
+export const arrivalsCollection = (tripId: string) => collection(db, 'trips', tripId, 'arrivals');
+
+// Arriving again starts a new visit, replacing the previous one
+export const recordGeofenceCrossing = (tripId: string, uid: string, geofenceId: string, type: GeofenceCrossingType, at: number) =>
+  setDoc(
+    doc(arrivalsCollection(tripId), uid),
+    { [geofenceId]: type === 'arrive' ? { arrivedAt: at, departedAt: null } : { departedAt: at } },
+    { merge: true }
+  );
+
+const listeners = new Set<GeofenceListener>();
+
+/**
+ * Calls `listener` whenever any traveler on the open trip arrives at or leaves
+ * one of its places. Returns the unsubscribe function.
+ */
+export const subscribeToGeofenceEvents = (listener: GeofenceListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const emitGeofenceEvent = (event: GeofenceEvent) => {
+  listeners.forEach(listener => {
+    // One broken subscriber mustn't stop the others hearing about it
+    try {
+      listener(event);
+    } catch (err) {
+      console.error('Error in geofence listener:', err);
+    }
+  });
+};
@@ -0,0 +1,56 @@
+import { collection, doc, setDoc, serverTimestamp, DocumentSnapshot, Timestamp } from 'firebase/firestore';
+import { db } from '../config/firebase';
+import { LatLng } from '../utils/geo';
+import { awaitWriteIfOnline } from '../utils/offlineWrite';
+
+export interface ChatMessage {
+  id: string;
+  authorId: string;
+  text: string;
+  // Epoch milliseconds, stamped by the server so every traveler's clock agrees on the order
+  createdAt: number;
+  // A point the author shared, usually where they are
+  location: LatLng | null;
+  // A stop on the trip the message is about
+  stopId: string | null;
+}
+
+export type NewChatMessage = Pick<ChatMessage, 'text'> & Partial<Pick<ChatMessage, 'location' | 'stopId'>>;
+
+export const MESSAGE_MAX_LENGTH = 1000;
+
+export const messagesCollection = (tripId: string) => collection(db, 'trips', tripId, 'messages');
+
+// One doc per traveler recording how far they have read
+export const chatReadsCollection = (tripId: string) => collection(db, 'trips', tripId, 'chatReads');
+
+// Server timestamps read back as millis; a message still being sent gets a local estimate
+export const toMillis = (value: Timestamp | number | null | undefined) =>
+  value instanceof Timestamp ? value.toMillis() : value ?? 0;
+
+export const toChatMessage = (snapshot: DocumentSnapshot): ChatMessage => {
+  const data = snapshot.data({ serverTimestamps: 'estimate' }) as Omit<ChatMessage, 'id' | 'createdAt'> & { createdAt: Timestamp };
+  return { ...data, createdAt: toMillis(data.createdAt), id: snapshot.id };
+};
+
+export const sendMessage = async (tripId: string, authorId: string, message: NewChatMessage) => {
+  const text = message.text.trim().slice(0, MESSAGE_MAX_LENGTH);
+  if (!text && !message.location && !message.stopId) {
+    throw new Error('A message needs text, a location or a stop');
+  }
+
+  // The id is generated locally so the message can be sent while offline
+  const ref = doc(messagesCollection(tripId));
+  await awaitWriteIfOnline(setDoc(ref, {
+    authorId,
+    text,
+    createdAt: serverTimestamp(),
+    location: message.location ?? null,
+    stopId: message.stopId ?? null
+  }));
+  return ref.id;
+};
+
+// Everything the server had received up to now counts as read
+export const markChatRead = (tripId: string, uid: string) =>
+  setDoc(doc(chatReadsCollection(tripId), uid), { lastReadAt: serverTimestamp() });
@@ -0,0 +1,60 @@
+import { collection, doc, writeBatch, DocumentSnapshot } from 'firebase/firestore';
+import { db } from '../config/firebase';
+import { prepareActivityEvent } from './activity';
+import { awaitWriteIfOnline } from '../utils/offlineWrite';
+import { Expense, NewExpense, DESCRIPTION_MAX_LENGTH, validateExpense } from '../utils/expenses';
+
+export const expensesCollection = (tripId: string) => collection(db, 'trips', tripId, 'expenses');
+
+export const toExpense = (snapshot: DocumentSnapshot): Expense => ({
+  ...(snapshot.data() as Omit<Expense, 'id'>),
+  id: snapshot.id
+});
+
+// Logged in the activity feed as who paid what, without the split
+const summarize = (expense: Pick<Expense, 'description' | 'amount' | 'currency' | 'paidBy'>) => ({
+  description: expense.description,
+  amount: expense.amount,
+  currency: expense.currency,
+  paidBy: expense.paidBy
+});
+
+export const addExpense = async (tripId: string, actorId: string, expense: NewExpense) => {
+  const problem = validateExpense(expense);
+  if (problem) {
+    throw new Error(problem);
+  }
+
+  const ref = doc(expensesCollection(tripId));
+  const data: Omit<Expense, 'id'> = {
+    ...expense,
+    description: expense.description.trim().slice(0, DESCRIPTION_MAX_LENGTH),
+    createdBy: actorId,
+    createdAt: Date.now()
+  };
+  const activity = prepareActivityEvent(tripId, actorId, {
+    type: 'expense.added',
+    subjectId: ref.id,
+    after: summarize(data)
+  });
+
+  const batch = writeBatch(db);
+  batch.set(ref, data);
+  batch.set(activity.ref, activity.data);
+  await awaitWriteIfOnline(batch.commit());
+
+  return ref.id;
+};
+
+export const deleteExpense = async (tripId: string, actorId: string, expense: Expense) => {
+  const activity = prepareActivityEvent(tripId, actorId, {
+    type: 'expense.removed',
+    subjectId: expense.id,
+    before: summarize(expense)
+  });
+
+  const batch = writeBatch(db);
+  batch.delete(doc(expensesCollection(tripId), expense.id));
+  batch.set(activity.ref, activity.data);
+  await awaitWriteIfOnline(batch.commit());
+};
@@ -0,0 +1,33 @@
+import { GeocodingProvider, GeocodingResult } from './types';
+
+// Known places for offline development and tests
+export const DEFAULT_FIXTURES: GeocodingResult[] = [
+  { name: 'San Francisco', formattedAddress: 'San Francisco, CA, USA', location: { lat: 37.7749, lng: -122.4194 }, placeId: 'fixture/san-francisco' },
+  { name: 'Los Angeles', formattedAddress: 'Los Angeles, CA, USA', location: { lat: 34.0522, lng: -118.2437 }, placeId: 'fixture/los-angeles' },
+  { name: 'Monterey Bay Aquarium', formattedAddress: '886 Cannery Row, Monterey, CA, USA', location: { lat: 36.6182, lng: -121.9019 }, placeId: 'fixture/monterey-bay-aquarium' },
+  { name: 'Big Sur', formattedAddress: 'Big Sur, CA, USA', location: { lat: 36.2704, lng: -121.8081 }, placeId: 'fixture/big-sur' },
+  { name: 'Boston', formattedAddress: 'Boston, MA, USA', location: { lat: 42.3601, lng: -71.0589 }, placeId: 'fixture/boston' },
+  { name: 'Providence', formattedAddress: 'Providence, RI, USA', location: { lat: 41.824, lng: -71.4128 }, placeId: 'fixture/providence' },
+  { name: 'New York', formattedAddress: 'New York, NY, USA', location: { lat: 40.7128, lng: -74.006 }, placeId: 'fixture/new-york' },
+  { name: 'Denver', formattedAddress: 'Denver, CO, USA', location: { lat: 39.7392, lng: -104.9903 }, placeId: 'fixture/denver' },
+  { name: 'Yellowstone National Park', formattedAddress: 'Yellowstone National Park, WY, USA', location: { lat: 44.428, lng: -110.5885 }, placeId: 'fixture/yellowstone' },
+  { name: 'Portland', formattedAddress: 'Portland, OR, USA', location: { lat: 45.5152, lng: -122.6784 }, placeId: 'fixture/portland-or' },
+  { name: 'Portland', formattedAddress: 'Portland, ME, USA', location: { lat: 43.6591, lng: -70.2568 }, placeId: 'fixture/portland-me' }
+];
+
+const normalize = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+export const createFixtureGeocoder = (fixtures: GeocodingResult[] = DEFAULT_FIXTURES): GeocodingProvider => ({
+  name: 'fixture',
+
+  geocode: async (query, { limit = 5 } = {}) => {
+    const needle = normalize(query);
+    if (!needle) return [];
+
+    return fixtures
+      .filter(place =>
+        normalize(place.formattedAddress).includes(needle) || needle.includes(normalize(place.name))
+      )
+      .slice(0, limit);
+  }
+});
@@ -0,0 +1,43 @@
+import { GeocodingProvider, GeocodingError } from './types';
+
+const GEOCODE_URL = 'https://maps.googleapis.com/maps/api/geocode/json';
+
+interface GoogleGeocodeResponse {
+  status: string;
+  error_message?: string;
+  results: {
+    place_id: string;
+    formatted_address: string;
+    address_components: { long_name: string }[];
+    geometry: { location: { lat: number; lng: number } };
+  }[];
+}
+
+export const createGoogleGeocoder = (apiKey: string): GeocodingProvider => ({
+  name: 'google',
+
+  geocode: async (query, { limit = 5, signal } = {}) => {
+    const params = new URLSearchParams({ address: query, key: apiKey });
+    const response = await fetch(`${GEOCODE_URL}?${params}`, { signal });
+
+    if (!response.ok) {
+      throw new GeocodingError(`Google geocoding failed with status ${response.status}`);
+    }
+
+    const data: GoogleGeocodeResponse = await response.json();
+
+    if (data.status === 'ZERO_RESULTS') {
+      return [];
+    }
+    if (data.status !== 'OK') {
+      throw new GeocodingError(data.error_message || `Google geocoding failed: ${data.status}`);
+    }
+
+    return data.results.slice(0, limit).map(result => ({
+      name: result.address_components[0]?.long_name || result.formatted_address,
+      formattedAddress: result.formatted_address,
+      location: result.geometry.location,
+      placeId: result.place_id
+    }));
+  }
+});
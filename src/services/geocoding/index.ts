@@ -0,0 +1,53 @@
+import { GOOGLE_MAPS_API_KEY } from '../../config/maps';
+import { haversineDistance } from '../../utils/geo';
+import { createGoogleGeocoder } from './google';
+import { createNominatimGeocoder } from './nominatim';
+import { createFixtureGeocoder } from './fixture';
+import { GeocodingProvider, GeocodingResult, NoMatchError } from './types';
+
+export * from './types';
+export { createGoogleGeocoder, createNominatimGeocoder, createFixtureGeocoder };
+
+// Results closer than this are treated as the same place (e.g. a city and its county seat)
+const DUPLICATE_RADIUS_M = 1000;
+
+const createDefaultGeocoder = (): GeocodingProvider => {
+  switch (import.meta.env.VITE_GEOCODER) {
+    case 'google':
+      return createGoogleGeocoder(GOOGLE_MAPS_API_KEY);
+    case 'nominatim':
+      return createNominatimGeocoder(import.meta.env.VITE_NOMINATIM_URL);
+    case 'fixture':
+      return createFixtureGeocoder();
+    default:
+      return GOOGLE_MAPS_API_KEY
+        ? createGoogleGeocoder(GOOGLE_MAPS_API_KEY)
+        : createNominatimGeocoder(import.meta.env.VITE_NOMINATIM_URL);
+  }
+};
+
+export const geocoder = createDefaultGeocoder();
+
+/**
+ * Looks up a typed place name. Resolves with one or more distinct candidates
+ * (more than one means the caller should ask the user to pick) and rejects
+ * with NoMatchError when nothing matches.
+ */
+export const resolvePlace = async (
+  query: string,
+  provider: GeocodingProvider = geocoder
+): Promise<GeocodingResult[]> => {
+  const results = await provider.geocode(query.trim());
+
+  const distinct = results.filter((result, index) =>
+    results
+      .slice(0, index)
+      .every(previous => haversineDistance(previous.location, result.location) > DUPLICATE_RADIUS_M)
+  );
+
+  if (distinct.length === 0) {
+    throw new NoMatchError(query.trim());
+  }
+
+  return distinct;
+};
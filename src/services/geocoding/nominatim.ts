@@ -0,0 +1,43 @@
+import { GeocodingProvider, GeocodingError } from './types';
+
+const DEFAULT_ENDPOINT = 'https://nominatim.openstreetmap.org';
+
+interface NominatimPlace {
+  osm_type: string;
+  osm_id: number;
+  lat: string;
+  lon: string;
+  name?: string;
+  display_name: string;
+}
+
+// Nominatim's usage policy allows light interactive use; point `endpoint`
+// at a self-hosted instance for anything heavier.
+export const createNominatimGeocoder = (endpoint = DEFAULT_ENDPOINT): GeocodingProvider => ({
+  name: 'nominatim',
+
+  geocode: async (query, { limit = 5, signal } = {}) => {
+    const params = new URLSearchParams({
+      q: query,
+      format: 'jsonv2',
+      limit: String(limit)
+    });
+    const response = await fetch(`${endpoint.replace(/\/$/, '')}/search?${params}`, {
+      signal,
+      headers: { Accept: 'application/json' }
+    });
+
+    if (!response.ok) {
+      throw new GeocodingError(`Nominatim geocoding failed with status ${response.status}`);
+    }
+
+    const places: NominatimPlace[] = await response.json();
+
+    return places.map(place => ({
+      name: place.name || place.display_name.split(',')[0],
+      formattedAddress: place.display_name,
+      location: { lat: Number(place.lat), lng: Number(place.lon) },
+      placeId: `${place.osm_type}/${place.osm_id}`
+    }));
+  }
+});
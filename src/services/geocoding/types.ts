@@ -0,0 +1,36 @@
+import { LatLng } from '../../utils/geo';
+
+export interface GeocodingResult {
+  // Short label to use as the stop/destination name
+  name: string;
+  formattedAddress: string;
+  location: LatLng;
+  placeId?: string;
+}
+
+export interface GeocodeOptions {
+  limit?: number;
+  signal?: AbortSignal;
+}
+
+export interface GeocodingProvider {
+  name: string;
+  geocode: (query: string, options?: GeocodeOptions) => Promise<GeocodingResult[]>;
+}
+
+export class GeocodingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GeocodingError';
+  }
+}
+
+export class NoMatchError extends GeocodingError {
+  query: string;
+
+  constructor(query: string) {
+    super(`No places found matching "${query}". Try adding a city or region.`);
+    this.name = 'NoMatchError';
+    this.query = query;
+  }
+}
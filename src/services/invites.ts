@@ -0,0 +1,163 @@
+import {
+  collection,
+  doc,
+  getDoc,
+  setDoc,
+  updateDoc,
+  runTransaction,
+  arrayUnion,
+  increment,
+  DocumentSnapshot
+} from 'firebase/firestore';
+import { db } from '../config/firebase';
+import { Trip } from '../contexts/TripContext';
+import { prepareActivityEvent } from './activity';
+
+export interface Invite {
+  code: string;
+  tripId: string;
+  // Snapshot of the trip so the invite can be previewed before joining
+  tripName: string;
+  originName: string;
+  destinationName: string;
+  // Travelers on the trip as of the last time this invite was created or redeemed
+  participantCount: number;
+  createdBy: string;
+  createdAt: string;
+  // Epoch milliseconds; null never expires
+  expiresAt: number | null;
+  // null allows unlimited uses
+  maxUses: number | null;
+  uses: number;
+  revoked: boolean;
+}
+
+export type InviteStatus = 'active' | 'expired' | 'revoked' | 'exhausted';
+
+export type InviteErrorReason = 'unknown' | 'expired' | 'revoked' | 'exhausted';
+
+export const INVITE_ERROR_MESSAGES: Record<InviteErrorReason, string> = {
+  unknown: "We couldn't find this invite. Please check the code or link and try again.",
+  expired: 'This invite has expired. Ask the trip organizer for a new one.',
+  revoked: 'This invite was revoked by the trip organizer.',
+  exhausted: 'This invite has already been used the maximum number of times.'
+};
+
+export class InviteError extends Error {
+  reason: InviteErrorReason;
+
+  constructor(reason: InviteErrorReason) {
+    super(`Invite is ${reason}`);
+    this.name = 'InviteError';
+    this.reason = reason;
+  }
+}
+
+// 32 symbols without look-alikes (0/O, 1/I); 10 of them give 2^50 possible codes
+const CODE_ALPHABET = '23456789ABCDEFGHJKLMNPQRSTUVWXYZ';
+const CODE_LENGTH = 10;
+
+export const invitesCollection = collection(db, 'invites');
+
+const generateCode = () => {
+  // 256 is a multiple of 32, so the modulo keeps every symbol equally likely
+  const bytes = crypto.getRandomValues(new Uint8Array(CODE_LENGTH));
+  return Array.from(bytes, byte => CODE_ALPHABET[byte % CODE_ALPHABET.length]).join('');
+};
+
+export const normalizeInviteCode = (code: string) => code.toUpperCase().replace(/[^0-9A-Z]/g, '');
+
+export const formatInviteCode = (code: string) => `${code.slice(0, 5)}-${code.slice(5)}`;
+
+export const getInviteLink = (code: string) => `${window.location.origin}/join/${formatInviteCode(code)}`;
+
+export const toInvite = (snapshot: DocumentSnapshot): Invite => ({
+  ...(snapshot.data() as Omit<Invite, 'code'>),
+  code: snapshot.id
+});
+
+export const getInviteStatus = (invite: Invite, now = Date.now()): InviteStatus => {
+  if (invite.revoked) return 'revoked';
+  if (invite.expiresAt !== null && invite.expiresAt <= now) return 'expired';
+  if (invite.maxUses !== null && invite.uses >= invite.maxUses) return 'exhausted';
+  return 'active';
+};
+
+export const createInvite = async (
+  trip: Pick<Trip, 'id' | 'name' | 'origin' | 'destination' | 'participants'>,
+  createdBy: string,
+  { expiresInMs, maxUses }: { expiresInMs?: number | null; maxUses?: number | null } = {}
+): Promise<Invite> => {
+  const invite: Invite = {
+    code: generateCode(),
+    tripId: trip.id,
+    tripName: trip.name,
+    originName: trip.origin.name,
+    destinationName: trip.destination.name,
+    participantCount: trip.participants.length,
+    createdBy,
+    createdAt: new Date().toISOString(),
+    expiresAt: expiresInMs ? Date.now() + expiresInMs : null,
+    maxUses: maxUses || null,
+    uses: 0,
+    revoked: false
+  };
+
+  const { code, ...data } = invite;
+  await setDoc(doc(invitesCollection, code), data);
+  return invite;
+};
+
+export const revokeInvite = (code: string) =>
+  updateDoc(doc(invitesCollection, code), { revoked: true });
+
+export const getInvite = async (code: string): Promise<Invite | null> => {
+  const normalized = normalizeInviteCode(code);
+  if (!normalized) return null;
+
+  const snapshot = await getDoc(doc(invitesCollection, normalized));
+  return snapshot.exists() ? toInvite(snapshot) : null;
+};
+
+/**
+ * Adds `uid` to the invite's trip as an editor and counts the use, all in one transaction.
+ * Resolves with the trip id; rejects with InviteError when the code can't be used.
+ */
+export const redeemInvite = async (code: string, uid: string): Promise<string> => {
+  const normalized = normalizeInviteCode(code);
+  if (normalized.length !== CODE_LENGTH) {
+    throw new InviteError('unknown');
+  }
+
+  const inviteRef = doc(invitesCollection, normalized);
+
+  return runTransaction(db, async (transaction) => {
+    const inviteSnapshot = await transaction.get(inviteRef);
+    if (!inviteSnapshot.exists()) {
+      throw new InviteError('unknown');
+    }
+
+    const invite = toInvite(inviteSnapshot);
+    const tripRef = doc(db, 'trips', invite.tripId);
+    // The join record is what security rules check before letting a non-member in
+    const joinRef = doc(db, 'trips', invite.tripId, 'joins', uid);
+    const joinSnapshot = await transaction.get(joinRef);
+
+    if (!joinSnapshot.exists()) {
+      const status = getInviteStatus(invite);
+      if (status !== 'active') {
+        throw new InviteError(status);
+      }
+
+      transaction.set(joinRef, { code: normalized, joinedAt: new Date().toISOString() });
+      transaction.update(inviteRef, { uses: increment(1), participantCount: increment(1) });
+      // Invited travelers can edit; the owner can demote them to viewers afterwards
+      transaction.update(tripRef, { participants: arrayUnion(uid), [`roles.${uid}`]: 'editor' });
+
+      const activity = prepareActivityEvent(invite.tripId, uid, { type: 'trip.joined', subjectId: uid, after: 'editor' });
+      transaction.set(activity.ref, activity.data);
+    }
+
+    return invite.tripId;
+  });
+};
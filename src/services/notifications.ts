@@ -0,0 +1,109 @@
+import { collection, doc, setDoc } from 'firebase/firestore';
+import { usersCollection } from './profiles';
+
+export type NotificationEvent = 'joined' | 'stopAdded' | 'arrived' | 'offRoute' | 'chat';
+
+export const NOTIFICATION_EVENT_LABELS: Record<NotificationEvent, string> = {
+  joined: 'Someone joins the trip',
+  stopAdded: 'A stop is added',
+  arrived: 'A traveler arrives somewhere',
+  offRoute: 'Someone falls behind or leaves the route',
+  chat: 'New chat messages'
+};
+
+export interface NotificationPreferences {
+  // Opt-in; nothing is shown until the user turns this on
+  enabled: boolean;
+  events: Record<NotificationEvent, boolean>;
+}
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  enabled: false,
+  events: { joined: true, stopAdded: true, arrived: true, offRoute: true, chat: true }
+};
+
+// What the service worker shows, whether it arrived by Web Push or from the local stand-in
+export interface PushPayload {
+  title: string;
+  body: string;
+  // Notifications with the same tag replace each other, e.g. the same event seen by two tabs
+  tag: string;
+  // Page to open when the notification is clicked
+  url: string;
+}
+
+// Public VAPID key of the push server; push subscriptions are only made when it is set
+export const VAPID_PUBLIC_KEY = import.meta.env.VITE_VAPID_PUBLIC_KEY || null;
+
+export const notificationPreferencesDoc = (uid: string) => doc(usersCollection, uid, 'preferences', 'notifications');
+
+// Where a push server finds the user's devices
+const pushSubscriptionsCollection = (uid: string) => collection(usersCollection, uid, 'pushSubscriptions');
+
+export const saveNotificationPreferences = (uid: string, preferences: NotificationPreferences) =>
+  setDoc(notificationPreferencesDoc(uid), preferences);
+
+export const notificationsSupported = () => 'Notification' in window;
+
+export const requestNotificationPermission = async (): Promise<NotificationPermission> => {
+  if (!notificationsSupported()) return 'denied';
+  if (Notification.permission !== 'default') return Notification.permission;
+  return Notification.requestPermission();
+};
+
+const urlBase64ToUint8Array = (base64: string) => {
+  const padded = (base64 + '='.repeat((4 - (base64.length % 4)) % 4)).replace(/-/g, '+').replace(/_/g, '/');
+  return Uint8Array.from(atob(padded), char => char.charCodeAt(0));
+};
+
+const sha256Hex = async (text: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Subscribes this device to Web Push and stores the subscription under the
+ * user, for a push server to deliver to. A no-op without a service worker or a
+ * configured VAPID key; the local stand-in still works then.
+ */
+export const subscribeToPush = async (uid: string) => {
+  if (!VAPID_PUBLIC_KEY || !('serviceWorker' in navigator) || !('PushManager' in window)) return;
+
+  const registration = await navigator.serviceWorker.getRegistration();
+  if (!registration) return;
+
+  const subscription = await registration.pushManager.getSubscription()
+    ?? await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: urlBase64ToUint8Array(VAPID_PUBLIC_KEY)
+    });
+
+  // Endpoints are URLs, which can't be document ids
+  const id = await sha256Hex(subscription.endpoint);
+  await setDoc(doc(pushSubscriptionsCollection(uid), id), {
+    ...subscription.toJSON(),
+    userAgent: navigator.userAgent,
+    updatedAt: Date.now()
+  });
+};
+
+/**
+ * Local stand-in for a push server: hands the payload to the service worker,
+ * which shows it exactly as it would a pushed message. Without a service
+ * worker (the dev server) the page shows the notification itself.
+ */
+export const deliverLocalPush = async (payload: PushPayload) => {
+  if (!notificationsSupported() || Notification.permission !== 'granted') return;
+
+  const registration = 'serviceWorker' in navigator ? await navigator.serviceWorker.getRegistration() : undefined;
+  if (registration?.active) {
+    registration.active.postMessage({ type: 'LOCAL_PUSH', payload });
+    return;
+  }
+
+  const notification = new Notification(payload.title, { body: payload.body, tag: payload.tag, icon: '/icon.svg' });
+  notification.onclick = () => {
+    window.focus();
+    notification.close();
+  };
+};
@@ -0,0 +1,46 @@
+import { Trip } from '../contexts/TripContext';
+import { getBounds, getTilesForBounds, formatTileUrl } from '../utils/tiles';
+
+// An XYZ tile server whose terms allow offline caching, e.g. a self-hosted one.
+// Google's own tiles can't be cached, so without this maps need a connection.
+export const OFFLINE_TILE_URL = import.meta.env.VITE_OFFLINE_TILE_URL || '';
+export const OFFLINE_TILE_ATTRIBUTION = import.meta.env.VITE_OFFLINE_TILE_ATTRIBUTION || '';
+
+// Everything before the first placeholder; the service worker caches URLs starting with it
+export const getTileUrlPrefix = (template: string) => template.slice(0, template.indexOf('{'));
+
+const MIN_ZOOM = 5;
+const MAX_ZOOM = 14;
+// Roughly 10-20 MB of tiles per trip
+const MAX_TILES_PER_TRIP = 800;
+// About 10 km, so the edges of the route aren't right at the edge of the cache
+const PADDING_DEGREES = 0.1;
+
+/**
+ * Tile URLs covering the trip's stops, from country level down to street
+ * level, stopping at the first zoom level that would exceed the tile budget.
+ */
+export const getTripTileUrls = (trip: Trip, template = OFFLINE_TILE_URL): string[] => {
+  if (!template) return [];
+
+  const bounds = getBounds(
+    [trip.origin.location, ...trip.stops.map(stop => stop.location), trip.destination.location],
+    PADDING_DEGREES
+  );
+
+  const urls: string[] = [];
+  for (let z = MIN_ZOOM; z <= MAX_ZOOM; z++) {
+    const tiles = getTilesForBounds(bounds, z);
+    if (urls.length + tiles.length > MAX_TILES_PER_TRIP) break;
+    tiles.forEach(tile => urls.push(formatTileUrl(template, tile)));
+  }
+  return urls;
+};
+
+// Asks the service worker to fetch the trip's tiles in the background
+export const precacheTripTiles = async (trip: Trip) => {
+  if (!OFFLINE_TILE_URL || !('serviceWorker' in navigator)) return;
+
+  const registration = await navigator.serviceWorker.ready;
+  registration.active?.postMessage({ type: 'CACHE_TILES', urls: getTripTileUrls(trip) });
+};
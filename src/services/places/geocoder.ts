@@ -0,0 +1,25 @@
+import { GeocodingProvider, GeocodingError } from '../geocoding';
+import { PlacesProvider } from './types';
+
+// Adapts any geocoder (e.g. the offline fixture one) into an autocomplete provider
+export const createGeocoderPlacesProvider = (geocoder: GeocodingProvider): PlacesProvider => ({
+  name: geocoder.name,
+
+  suggest: async (input, { limit, signal } = {}) => {
+    const results = await geocoder.geocode(input, { limit, signal });
+
+    return results.map((place, index) => ({
+      placeId: place.placeId || `${geocoder.name}/${index}`,
+      primaryText: place.name,
+      secondaryText: place.formattedAddress,
+      place
+    }));
+  },
+
+  resolve: async (suggestion) => {
+    if (!suggestion.place) {
+      throw new GeocodingError(`No coordinates for ${suggestion.primaryText}`);
+    }
+    return suggestion.place;
+  }
+});
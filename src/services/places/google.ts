@@ -0,0 +1,91 @@
+import { GeocodingError } from '../geocoding';
+import { PlacesProvider } from './types';
+
+const PLACES_URL = 'https://places.googleapis.com/v1';
+
+interface GoogleAutocompleteResponse {
+  suggestions?: {
+    placePrediction?: {
+      placeId: string;
+      text: { text: string };
+      structuredFormat?: {
+        mainText: { text: string };
+        secondaryText?: { text: string };
+      };
+    };
+  }[];
+}
+
+interface GooglePlaceResponse {
+  id: string;
+  displayName?: { text: string };
+  formattedAddress: string;
+  location: { latitude: number; longitude: number };
+}
+
+// Google Places API (New); autocomplete and details are billed as one session
+export const createGooglePlacesProvider = (apiKey: string): PlacesProvider => {
+  let sessionToken = crypto.randomUUID();
+
+  return {
+    name: 'google',
+
+    suggest: async (input, { limit = 5, signal, near } = {}) => {
+      const response = await fetch(`${PLACES_URL}/places:autocomplete`, {
+        method: 'POST',
+        signal,
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Goog-Api-Key': apiKey
+        },
+        body: JSON.stringify({
+          input,
+          sessionToken,
+          locationBias: near
+            ? { circle: { center: { latitude: near.lat, longitude: near.lng }, radius: 50000 } }
+            : undefined
+        })
+      });
+
+      if (!response.ok) {
+        throw new GeocodingError(`Google autocomplete failed with status ${response.status}`);
+      }
+
+      const data: GoogleAutocompleteResponse = await response.json();
+
+      return (data.suggestions || [])
+        .flatMap(suggestion => (suggestion.placePrediction ? [suggestion.placePrediction] : []))
+        .slice(0, limit)
+        .map(prediction => ({
+          placeId: prediction.placeId,
+          primaryText: prediction.structuredFormat?.mainText.text || prediction.text.text,
+          secondaryText: prediction.structuredFormat?.secondaryText?.text || ''
+        }));
+    },
+
+    resolve: async (suggestion, { signal } = {}) => {
+      const params = new URLSearchParams({ sessionToken });
+      const response = await fetch(`${PLACES_URL}/places/${encodeURIComponent(suggestion.placeId)}?${params}`, {
+        signal,
+        headers: {
+          'X-Goog-Api-Key': apiKey,
+          'X-Goog-FieldMask': 'id,displayName,formattedAddress,location'
+        }
+      });
+
+      if (!response.ok) {
+        throw new GeocodingError(`Google place details failed with status ${response.status}`);
+      }
+
+      const place: GooglePlaceResponse = await response.json();
+      sessionToken = crypto.randomUUID();
+
+      return {
+        name: place.displayName?.text || suggestion.primaryText,
+        formattedAddress: place.formattedAddress,
+        location: { lat: place.location.latitude, lng: place.location.longitude },
+        placeId: place.id
+      };
+    }
+  };
+};
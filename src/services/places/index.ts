@@ -0,0 +1,26 @@
+import { GOOGLE_MAPS_API_KEY } from '../../config/maps';
+import { createFixtureGeocoder } from '../geocoding';
+import { createGooglePlacesProvider } from './google';
+import { createPhotonProvider } from './photon';
+import { createGeocoderPlacesProvider } from './geocoder';
+import { PlacesProvider } from './types';
+
+export * from './types';
+export { createGooglePlacesProvider, createPhotonProvider, createGeocoderPlacesProvider };
+
+const createDefaultPlacesProvider = (): PlacesProvider => {
+  switch (import.meta.env.VITE_PLACES_PROVIDER) {
+    case 'google':
+      return createGooglePlacesProvider(GOOGLE_MAPS_API_KEY);
+    case 'photon':
+      return createPhotonProvider(import.meta.env.VITE_PHOTON_URL);
+    case 'fixture':
+      return createGeocoderPlacesProvider(createFixtureGeocoder());
+    default:
+      return GOOGLE_MAPS_API_KEY
+        ? createGooglePlacesProvider(GOOGLE_MAPS_API_KEY)
+        : createPhotonProvider(import.meta.env.VITE_PHOTON_URL);
+  }
+};
+
+export const placesProvider = createDefaultPlacesProvider();
@@ -0,0 +1,69 @@
+import { GeocodingError } from '../geocoding';
+import { PlacesProvider } from './types';
+
+const DEFAULT_ENDPOINT = 'https://photon.komoot.io';
+
+interface PhotonResponse {
+  features: {
+    geometry: { coordinates: [number, number] };
+    properties: {
+      osm_type: string;
+      osm_id: number;
+      name?: string;
+      street?: string;
+      housenumber?: string;
+      city?: string;
+      state?: string;
+      country?: string;
+    };
+  }[];
+}
+
+// Photon is an OSM search-as-you-type service built on Nominatim data
+export const createPhotonProvider = (endpoint = DEFAULT_ENDPOINT): PlacesProvider => ({
+  name: 'photon',
+
+  suggest: async (input, { limit = 5, signal, near } = {}) => {
+    const params = new URLSearchParams({ q: input, limit: String(limit) });
+    if (near) {
+      params.set('lat', String(near.lat));
+      params.set('lon', String(near.lng));
+    }
+
+    const response = await fetch(`${endpoint.replace(/\/$/, '')}/api/?${params}`, { signal });
+
+    if (!response.ok) {
+      throw new GeocodingError(`Photon autocomplete failed with status ${response.status}`);
+    }
+
+    const data: PhotonResponse = await response.json();
+
+    return data.features.map(({ geometry, properties }) => {
+      const street = [properties.housenumber, properties.street].filter(Boolean).join(' ');
+      const primaryText = properties.name || street || properties.city || input;
+      const secondaryText = [properties.city, properties.state, properties.country]
+        .filter(part => part && part !== primaryText)
+        .join(', ');
+      const placeId = `${properties.osm_type}/${properties.osm_id}`;
+
+      return {
+        placeId,
+        primaryText,
+        secondaryText,
+        place: {
+          name: primaryText,
+          formattedAddress: [primaryText, secondaryText].filter(Boolean).join(', '),
+          location: { lat: geometry.coordinates[1], lng: geometry.coordinates[0] },
+          placeId
+        }
+      };
+    });
+  },
+
+  resolve: async (suggestion) => {
+    if (!suggestion.place) {
+      throw new GeocodingError(`No coordinates for ${suggestion.primaryText}`);
+    }
+    return suggestion.place;
+  }
+});
@@ -0,0 +1,23 @@
+import { GeocodingResult } from '../geocoding';
+
+export interface PlaceSuggestion {
+  placeId: string;
+  primaryText: string;
+  secondaryText: string;
+  // Some providers (Photon, fixtures) return coordinates with the suggestion itself
+  place?: GeocodingResult;
+}
+
+export interface SuggestOptions {
+  limit?: number;
+  signal?: AbortSignal;
+  // Prefer results near this point
+  near?: { lat: number; lng: number };
+}
+
+export interface PlacesProvider {
+  name: string;
+  suggest: (input: string, options?: SuggestOptions) => Promise<PlaceSuggestion[]>;
+  // Turns a suggestion into a place with coordinates
+  resolve: (suggestion: PlaceSuggestion, options?: { signal?: AbortSignal }) => Promise<GeocodingResult>;
+}
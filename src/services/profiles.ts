@@ -0,0 +1,78 @@
+import { collection, doc, setDoc } from 'firebase/firestore';
+import { db } from '../config/firebase';
+import { awaitWriteIfOnline } from '../utils/offlineWrite';
+
+// Account-wide details, copied from the Firebase user on every sign-in
+export interface UserProfile {
+  uid: string;
+  displayName: string | null;
+  photoURL: string | null;
+  updatedAt: number;
+}
+
+// What a traveler chooses for themselves on one trip
+export interface TripMemberProfile {
+  nickname: string | null;
+  color: string | null;
+}
+
+// Everything the UI needs to show a traveler
+export interface TravelerProfile {
+  uid: string;
+  name: string;
+  photoURL: string | null;
+  color: string;
+  nickname: string | null;
+}
+
+export const NICKNAME_MAX_LENGTH = 40;
+
+// Distinct from the red/blue/green origin, stop and destination markers
+export const TRAVELER_COLORS = [
+  '#8b5cf6',
+  '#ec4899',
+  '#f97316',
+  '#14b8a6',
+  '#0ea5e9',
+  '#6366f1',
+  '#84cc16',
+  '#eab308'
+];
+
+export const usersCollection = collection(db, 'users');
+
+export const tripMembersCollection = (tripId: string) => collection(db, 'trips', tripId, 'members');
+
+// Stable per uid, so a traveler keeps their colour until they pick one
+export const getDefaultTravelerColor = (uid: string) => {
+  let hash = 0;
+  for (let i = 0; i < uid.length; i++) {
+    hash = (hash * 31 + uid.charCodeAt(i)) >>> 0;
+  }
+  return TRAVELER_COLORS[hash % TRAVELER_COLORS.length];
+};
+
+export const toTravelerProfile = (
+  uid: string,
+  user: UserProfile | undefined,
+  member: TripMemberProfile | undefined
+): TravelerProfile => ({
+  uid,
+  name: member?.nickname || user?.displayName || 'Traveler',
+  photoURL: user?.photoURL ?? null,
+  color: member?.color || getDefaultTravelerColor(uid),
+  nickname: member?.nickname ?? null
+});
+
+export const saveUserProfile = (user: Pick<UserProfile, 'uid' | 'displayName' | 'photoURL'>) =>
+  setDoc(doc(usersCollection, user.uid), {
+    displayName: user.displayName,
+    photoURL: user.photoURL,
+    updatedAt: Date.now()
+  });
+
+export const saveTripMemberProfile = (tripId: string, uid: string, profile: TripMemberProfile) =>
+  awaitWriteIfOnline(setDoc(doc(tripMembersCollection(tripId), uid), {
+    nickname: profile.nickname?.trim().slice(0, NICKNAME_MAX_LENGTH) || null,
+    color: profile.color
+  }));
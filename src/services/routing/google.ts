@@ -0,0 +1,92 @@
+import { LatLng } from '../../utils/geo';
+import { RoutingProvider, RoutingError } from './types';
+
+const ROUTES_URL = 'https://routes.googleapis.com/directions/v2:computeRoutes';
+const FIELD_MASK = 'routes.distanceMeters,routes.duration,routes.polyline.encodedPolyline,routes.legs.distanceMeters,routes.legs.duration';
+
+interface GoogleRoutesResponse {
+  routes?: {
+    distanceMeters?: number;
+    duration: string;
+    polyline: { encodedPolyline: string };
+    legs: { distanceMeters?: number; duration: string }[];
+  }[];
+}
+
+const toWaypoint = ({ lat, lng }: LatLng) => ({
+  location: { latLng: { latitude: lat, longitude: lng } }
+});
+
+// Durations come back as protobuf strings such as "5421s"
+const parseDuration = (duration: string) => Number.parseFloat(duration) || 0;
+
+// https://developers.google.com/maps/documentation/utilities/polylinealgorithm
+const decodePolyline = (encoded: string): LatLng[] => {
+  const path: LatLng[] = [];
+  let index = 0;
+  let lat = 0;
+  let lng = 0;
+
+  const next = () => {
+    let result = 0;
+    let shift = 0;
+    let byte: number;
+    do {
+      byte = encoded.charCodeAt(index++) - 63;
+      result |= (byte & 0x1f) << shift;
+      shift += 5;
+    } while (byte >= 0x20);
+    return result & 1 ? ~(result >> 1) : result >> 1;
+  };
+
+  while (index < encoded.length) {
+    lat += next();
+    lng += next();
+    path.push({ lat: lat / 1e5, lng: lng / 1e5 });
+  }
+
+  return path;
+};
+
+// Google Routes API, the successor to the Directions web service
+export const createGoogleRoutingProvider = (apiKey: string): RoutingProvider => ({
+  name: 'google',
+
+  route: async (waypoints, { signal } = {}) => {
+    const response = await fetch(ROUTES_URL, {
+      method: 'POST',
+      signal,
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Goog-Api-Key': apiKey,
+        'X-Goog-FieldMask': FIELD_MASK
+      },
+      body: JSON.stringify({
+        origin: toWaypoint(waypoints[0]),
+        destination: toWaypoint(waypoints[waypoints.length - 1]),
+        intermediates: waypoints.slice(1, -1).map(toWaypoint),
+        travelMode: 'DRIVE'
+      })
+    });
+
+    if (!response.ok) {
+      throw new RoutingError(`Google routing failed with status ${response.status}`);
+    }
+
+    const data: GoogleRoutesResponse = await response.json();
+    const route = data.routes?.[0];
+    if (!route) {
+      throw new RoutingError('No drivable route between these places');
+    }
+
+    return {
+      legs: route.legs.map(leg => ({
+        distance: leg.distanceMeters || 0,
+        duration: parseDuration(leg.duration)
+      })),
+      distance: route.distanceMeters || 0,
+      duration: parseDuration(route.duration),
+      path: decodePolyline(route.polyline.encodedPolyline)
+    };
+  }
+});
@@ -0,0 +1,48 @@
+import { GOOGLE_MAPS_API_KEY } from '../../config/maps';
+import { LatLng } from '../../utils/geo';
+import { createGoogleRoutingProvider } from './google';
+import { createOsrmRoutingProvider } from './osrm';
+import { Route, RoutingProvider } from './types';
+
+export * from './types';
+export { createGoogleRoutingProvider, createOsrmRoutingProvider };
+
+const createDefaultRoutingProvider = (): RoutingProvider => {
+  switch (import.meta.env.VITE_ROUTING_PROVIDER) {
+    case 'google':
+      return createGoogleRoutingProvider(GOOGLE_MAPS_API_KEY);
+    case 'osrm':
+      return createOsrmRoutingProvider(import.meta.env.VITE_OSRM_URL);
+    default:
+      return GOOGLE_MAPS_API_KEY
+        ? createGoogleRoutingProvider(GOOGLE_MAPS_API_KEY)
+        : createOsrmRoutingProvider(import.meta.env.VITE_OSRM_URL);
+  }
+};
+
+export const routingProvider = createDefaultRoutingProvider();
+
+// One cached route per trip, keyed by its waypoints so any stop change invalidates it
+const routeCache = new Map<string, { key: string; route: Route }>();
+
+export const waypointsKey = (waypoints: LatLng[]) =>
+  waypoints.map(({ lat, lng }) => `${lat.toFixed(5)},${lng.toFixed(5)}`).join(';');
+
+export const getCachedRoute = (tripId: string, waypoints: LatLng[]): Route | null => {
+  const cached = routeCache.get(tripId);
+  return cached && cached.key === waypointsKey(waypoints) ? cached.route : null;
+};
+
+export const getTripRoute = async (
+  tripId: string,
+  waypoints: LatLng[],
+  options: { signal?: AbortSignal; provider?: RoutingProvider } = {}
+): Promise<Route> => {
+  const cached = getCachedRoute(tripId, waypoints);
+  if (cached) return cached;
+
+  const { signal, provider = routingProvider } = options;
+  const route = await provider.route(waypoints, { signal });
+  routeCache.set(tripId, { key: waypointsKey(waypoints), route });
+  return route;
+};
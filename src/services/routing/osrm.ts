@@ -0,0 +1,39 @@
+import { RoutingProvider, RoutingError } from './types';
+
+const DEFAULT_ENDPOINT = 'https://router.project-osrm.org';
+
+interface OsrmResponse {
+  code: string;
+  message?: string;
+  routes?: {
+    distance: number;
+    duration: number;
+    geometry: { coordinates: [number, number][] };
+    legs: { distance: number; duration: number }[];
+  }[];
+}
+
+// Works against any OSRM-compatible /route/v1 endpoint, including a self-hosted one
+export const createOsrmRoutingProvider = (endpoint = DEFAULT_ENDPOINT): RoutingProvider => ({
+  name: 'osrm',
+
+  route: async (waypoints, { signal } = {}) => {
+    const coordinates = waypoints.map(({ lat, lng }) => `${lng},${lat}`).join(';');
+    const params = new URLSearchParams({ overview: 'full', geometries: 'geojson' });
+    const response = await fetch(`${endpoint.replace(/\/$/, '')}/route/v1/driving/${coordinates}?${params}`, { signal });
+
+    const data: OsrmResponse = await response.json().catch(() => ({ code: 'InvalidResponse' }));
+    const route = data.routes?.[0];
+
+    if (!response.ok || data.code !== 'Ok' || !route) {
+      throw new RoutingError(data.message || `OSRM routing failed: ${data.code}`);
+    }
+
+    return {
+      legs: route.legs.map(leg => ({ distance: leg.distance, duration: leg.duration })),
+      distance: route.distance,
+      duration: route.duration,
+      path: route.geometry.coordinates.map(([lng, lat]) => ({ lat, lng }))
+    };
+  }
+});
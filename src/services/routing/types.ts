@@ -0,0 +1,28 @@
+import { LatLng } from '../../utils/geo';
+
+export interface RouteLeg {
+  // Meters
+  distance: number;
+  // Seconds
+  duration: number;
+}
+
+export interface Route {
+  legs: RouteLeg[];
+  distance: number;
+  duration: number;
+  // Road geometry from the first waypoint to the last
+  path: LatLng[];
+}
+
+export interface RoutingProvider {
+  name: string;
+  route: (waypoints: LatLng[], options?: { signal?: AbortSignal }) => Promise<Route>;
+}
+
+export class RoutingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RoutingError';
+  }
+}
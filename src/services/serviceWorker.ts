@@ -0,0 +1,16 @@
+import { OFFLINE_TILE_URL, getTileUrlPrefix } from './offlineTiles';
+
+// Registers public/sw.js in production builds; the dev server's modules aren't cacheable
+export const registerServiceWorker = () => {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+
+  const url = OFFLINE_TILE_URL
+    ? `/sw.js?tiles=${encodeURIComponent(getTileUrlPrefix(OFFLINE_TILE_URL))}`
+    : '/sw.js';
+
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register(url).catch(error => {
+      console.error('Error registering service worker:', error);
+    });
+  });
+};
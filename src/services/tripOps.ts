@@ -0,0 +1,43 @@
+import { collection, doc, getDocs, DocumentSnapshot } from 'firebase/firestore';
+import { db } from '../config/firebase';
+import { StopOp } from '../utils/tripCrdt';
+
+// Append-only log of stop edits; see src/utils/tripCrdt.ts for how it's merged
+export const stopOpsCollection = (tripId: string) => collection(db, 'trips', tripId, 'ops');
+
+// Fresh on every page load: sessionStorage would be copied into a duplicated tab,
+// and two tabs sharing an id could stamp different edits identically
+const REPLICA_ID = Math.random().toString(36).slice(2, 14);
+
+/**
+ * Identifies this page load in vector clocks. Two tabs or devices of the same
+ * user are separate replicas, as they can edit concurrently; clocks already
+ * carry everything a reloaded page saw, so it can start over as a new one.
+ */
+export const getReplicaId = () => REPLICA_ID;
+
+export const toStopOp = (snapshot: DocumentSnapshot): StopOp => {
+  const data = snapshot.data()!;
+  return {
+    stopId: data.stopId,
+    fields: data.fields,
+    stamp: { clock: data.clock, replicaId: data.replicaId }
+  };
+};
+
+// Works offline too, from the persistent cache
+export const getStopOps = async (tripId: string) =>
+  (await getDocs(stopOpsCollection(tripId))).docs.map(toStopOp);
+
+// A new operation's ref and data, written in the same batch as the activity event for the edit
+export const prepareStopOp = (tripId: string, actorId: string, op: StopOp) => ({
+  ref: doc(stopOpsCollection(tripId)),
+  data: {
+    actorId,
+    stopId: op.stopId,
+    fields: op.fields,
+    clock: op.stamp.clock,
+    replicaId: op.stamp.replicaId,
+    createdAt: Date.now()
+  }
+});
@@ -0,0 +1,171 @@
+import { collection, doc, getDocs, updateDoc, writeBatch, DocumentSnapshot } from 'firebase/firestore';
+import { db } from '../config/firebase';
+import { ParticipantPresence } from '../hooks/useTripPresence';
+import { prepareActivityEvent } from './activity';
+import { awaitWriteIfOnline } from '../utils/offlineWrite';
+
+export interface Vehicle {
+  id: string;
+  name: string;
+  color: string;
+  driverId: string | null;
+  passengerIds: string[];
+  // Whose phone stands for the car on the map; the driver's when null
+  trackerId: string | null;
+  createdAt: number;
+}
+
+export type NewVehicle = Pick<Vehicle, 'name' | 'color'>;
+
+export type Seat = 'driver' | 'passenger';
+
+// Where a traveler should sit; null takes them out of every car
+export type SeatAssignment = { vehicleId: string; seat: Seat } | null;
+
+export const VEHICLE_NAME_MAX_LENGTH = 40;
+
+export const vehiclesCollection = (tripId: string) => collection(db, 'trips', tripId, 'vehicles');
+
+export const toVehicle = (snapshot: DocumentSnapshot): Vehicle => ({
+  ...(snapshot.data() as Omit<Vehicle, 'id'>),
+  id: snapshot.id
+});
+
+export const getVehicles = async (tripId: string) =>
+  (await getDocs(vehiclesCollection(tripId))).docs.map(toVehicle);
+
+export const getVehicleOccupants = (vehicle: Vehicle) =>
+  vehicle.driverId ? [vehicle.driverId, ...vehicle.passengerIds] : vehicle.passengerIds;
+
+export const findTravelerSeat = (vehicles: Vehicle[], uid: string): SeatAssignment => {
+  for (const vehicle of vehicles) {
+    if (vehicle.driverId === uid) return { vehicleId: vehicle.id, seat: 'driver' };
+    if (vehicle.passengerIds.includes(uid)) return { vehicleId: vehicle.id, seat: 'passenger' };
+  }
+  return null;
+};
+
+/**
+ * Where to draw the car: the tracker's position, else the driver's, as long as
+ * it hasn't gone offline; failing that, whichever occupant reported last.
+ */
+export const getVehiclePosition = (
+  vehicle: Vehicle,
+  locations: ParticipantPresence[]
+): ParticipantPresence | undefined => {
+  const byUid = (uid: string | null) => locations.find(location => location.uid === uid);
+
+  for (const uid of [vehicle.trackerId, vehicle.driverId]) {
+    const location = byUid(uid);
+    if (location && location.status !== 'offline') return location;
+  }
+
+  return getVehicleOccupants(vehicle)
+    .map(byUid)
+    .filter((location): location is ParticipantPresence => location !== undefined)
+    .sort((a, b) => b.updatedAt - a.updatedAt)[0];
+};
+
+/**
+ * The per-car changes that move `uid` to `target`. Taking a driver's seat that
+ * is already taken moves the current driver to the passengers of that car.
+ */
+export const planSeatChange = (
+  vehicles: Vehicle[],
+  uid: string,
+  target: SeatAssignment
+): Record<string, Partial<Pick<Vehicle, 'driverId' | 'passengerIds' | 'trackerId'>>> => {
+  const changes: Record<string, Partial<Pick<Vehicle, 'driverId' | 'passengerIds' | 'trackerId'>>> = {};
+
+  vehicles.forEach(vehicle => {
+    let driverId = vehicle.driverId === uid ? null : vehicle.driverId;
+    let passengerIds = vehicle.passengerIds.filter(passenger => passenger !== uid);
+
+    if (vehicle.id === target?.vehicleId) {
+      if (target.seat === 'driver') {
+        if (driverId) passengerIds = [...passengerIds, driverId];
+        driverId = uid;
+      } else {
+        passengerIds = [...passengerIds, uid];
+      }
+    }
+
+    const change: Partial<Pick<Vehicle, 'driverId' | 'passengerIds' | 'trackerId'>> = {};
+    if (driverId !== vehicle.driverId) change.driverId = driverId;
+    if (passengerIds.join() !== vehicle.passengerIds.join()) change.passengerIds = passengerIds;
+    // A tracker who leaves the car stops standing in for it
+    if (vehicle.trackerId === uid && vehicle.id !== target?.vehicleId) change.trackerId = null;
+    if (Object.keys(change).length > 0) changes[vehicle.id] = change;
+  });
+
+  return changes;
+};
+
+export const createVehicle = async (tripId: string, actorId: string, vehicle: NewVehicle) => {
+  const ref = doc(vehiclesCollection(tripId));
+  const name = vehicle.name.trim().slice(0, VEHICLE_NAME_MAX_LENGTH);
+  const activity = prepareActivityEvent(tripId, actorId, {
+    type: 'vehicle.added',
+    subjectId: ref.id,
+    after: { name, color: vehicle.color }
+  });
+
+  const batch = writeBatch(db);
+  batch.set(ref, {
+    name,
+    color: vehicle.color,
+    driverId: null,
+    passengerIds: [],
+    trackerId: null,
+    createdAt: Date.now()
+  });
+  batch.set(activity.ref, activity.data);
+  await awaitWriteIfOnline(batch.commit());
+
+  return ref.id;
+};
+
+// Its occupants go back to being unassigned
+export const deleteVehicle = async (tripId: string, actorId: string, vehicle: Vehicle) => {
+  const activity = prepareActivityEvent(tripId, actorId, {
+    type: 'vehicle.removed',
+    subjectId: vehicle.id,
+    before: { name: vehicle.name, color: vehicle.color }
+  });
+
+  const batch = writeBatch(db);
+  batch.delete(doc(vehiclesCollection(tripId), vehicle.id));
+  batch.set(activity.ref, activity.data);
+  await awaitWriteIfOnline(batch.commit());
+};
+
+export const seatTraveler = async (
+  tripId: string,
+  actorId: string,
+  vehicles: Vehicle[],
+  uid: string,
+  target: SeatAssignment
+) => {
+  const changes = planSeatChange(vehicles, uid, target);
+  if (Object.keys(changes).length === 0) return;
+
+  const vehicleName = (seat: SeatAssignment) =>
+    seat ? vehicles.find(vehicle => vehicle.id === seat.vehicleId)?.name ?? null : null;
+  const before = findTravelerSeat(vehicles, uid);
+  const activity = prepareActivityEvent(tripId, actorId, {
+    type: 'traveler.seated',
+    subjectId: uid,
+    before: before && { ...before, vehicleName: vehicleName(before) },
+    after: target && { ...target, vehicleName: vehicleName(target) }
+  });
+
+  const batch = writeBatch(db);
+  Object.entries(changes).forEach(([vehicleId, change]) => {
+    batch.update(doc(vehiclesCollection(tripId), vehicleId), change);
+  });
+  batch.set(activity.ref, activity.data);
+  await awaitWriteIfOnline(batch.commit());
+};
+
+export const setVehicleTracker = (tripId: string, vehicleId: string, trackerId: string | null) =>
+  awaitWriteIfOnline(updateDoc(doc(vehiclesCollection(tripId), vehicleId), { trackerId }));
@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+import { LatLng } from './geo';
+import {
+  ConvoyAlert,
+  ConvoyPosition,
+  ConvoyState,
+  DEFAULT_CONVOY_SETTINGS,
+  INITIAL_CONVOY_STATE,
+  evaluateConvoy,
+  locateOnPath
+} from './convoyMonitor';
+
+// Along the equator, where a degree of longitude is about 111.2 km
+const path: LatLng[] = [{ lat: 0, lng: 0 }, { lat: 0, lng: 0.5 }, { lat: 0, lng: 1 }];
+const METERS_PER_DEGREE = 111195;
+
+const at = (metersAlong: number, metersOff = 0): LatLng => ({
+  lat: metersOff / METERS_PER_DEGREE,
+  lng: metersAlong / METERS_PER_DEGREE
+});
+
+// Each tick is seconds since the start and where everyone is
+type Trace = [number, Record<string, LatLng>][];
+
+// Feeds `trace` through the monitor, returning the alerts after every tick
+const replay = (trace: Trace, route: LatLng[] | null = path): ConvoyAlert[][] => {
+  let state: ConvoyState = INITIAL_CONVOY_STATE;
+  return trace.map(([seconds, locations]) => {
+    const positions: ConvoyPosition[] = Object.entries(locations).map(([uid, location]) => ({ uid, location }));
+    state = evaluateConvoy(positions, route, path, DEFAULT_CONVOY_SETTINGS, state, seconds * 1000);
+    return state.alerts;
+  });
+};
+
+const summary = (alerts: ConvoyAlert[]) => alerts.map(alert => `${alert.uid}:${alert.type}`);
+
+describe('locateOnPath', () => {
+  it('measures distance along and off the route', () => {
+    const { along, offPath } = locateOnPath(at(60000, 800), path);
+    expect(along).toBeCloseTo(60000, -1);
+    expect(offPath).toBeCloseTo(800, -1);
+  });
+
+  it('measures from the nearest end past the route', () => {
+    const { along, offPath } = locateOnPath(at(-2000), path);
+    expect(along).toBe(0);
+    expect(offPath).toBeCloseTo(2000, -1);
+  });
+});
+
+describe('evaluateConvoy', () => {
+  it('flags a traveler who falls more than 5 km behind the leader', () => {
+    const alerts = replay([
+      [0, { lead: at(10000), sam: at(9000) }],
+      [60, { lead: at(12000), sam: at(8000) }],
+      [120, { lead: at(15000), sam: at(9500) }],
+      [180, { lead: at(17000), sam: at(11500) }]
+    ]);
+
+    expect(alerts.map(summary)).toEqual([[], [], ['sam:separated'], ['sam:separated']]);
+    expect(alerts[2][0].distance).toBeCloseTo(5500, -1);
+    // Still the same alert, with the distance kept up to date
+    expect(alerts[3][0].raisedAt).toBe(120000);
+  });
+
+  it('clears a separation once the traveler catches up well inside the limit', () => {
+    const alerts = replay([
+      [0, { lead: at(15000), sam: at(9000) }],
+      // 4.5 km behind: under the limit, but not enough to call it rejoined
+      [60, { lead: at(16000), sam: at(11500) }],
+      [120, { lead: at(17000), sam: at(14000) }]
+    ]);
+
+    expect(alerts.map(summary)).toEqual([['sam:separated'], ['sam:separated'], []]);
+  });
+
+  it('waits two minutes before flagging a traveler more than 500 m off the route', () => {
+    const alerts = replay([
+      [0, { lead: at(10000), sam: at(9500, 800) }],
+      [60, { lead: at(11000), sam: at(10500, 900) }],
+      [119, { lead: at(12000), sam: at(11500, 900) }],
+      [120, { lead: at(12000), sam: at(11500, 900) }],
+      [180, { lead: at(13000), sam: at(12500, 1000) }]
+    ]);
+
+    expect(alerts.map(summary)).toEqual([[], [], [], ['sam:offRoute'], ['sam:offRoute']]);
+    expect(alerts[4][0].distance).toBeCloseTo(1000, -1);
+  });
+
+  it('lets a short detour go without an alert', () => {
+    const alerts = replay([
+      [0, { lead: at(10000), sam: at(9500, 800) }],
+      [90, { lead: at(11000), sam: at(10500) }],
+      // Off again: the two minutes start over
+      [100, { lead: at(11000), sam: at(10500, 800) }],
+      [200, { lead: at(12000), sam: at(11500, 800) }]
+    ]);
+
+    expect(alerts.map(summary)).toEqual([[], [], [], []]);
+  });
+
+  it('clears an off-route alert once the traveler rejoins the route', () => {
+    const alerts = replay([
+      [0, { lead: at(10000), sam: at(9500, 800) }],
+      [150, { lead: at(11000), sam: at(10500, 800) }],
+      [210, { lead: at(12000), sam: at(11500, 100) }]
+    ]);
+
+    expect(alerts.map(summary)).toEqual([[], ['sam:offRoute'], []]);
+  });
+
+  it('only checks separation, not off-route, without a road route', () => {
+    const alerts = replay([
+      [0, { lead: at(15000), sam: at(9000, 800) }],
+      [180, { lead: at(16000), sam: at(10000, 800) }]
+    ], null);
+
+    expect(alerts.map(summary)).toEqual([['sam:separated'], ['sam:separated']]);
+  });
+
+  it('drops alerts for travelers who stop sharing their location', () => {
+    const alerts = replay([
+      [0, { lead: at(15000), sam: at(9000) }],
+      [60, { lead: at(16000) }]
+    ]);
+
+    expect(alerts.map(summary)).toEqual([['sam:separated'], []]);
+  });
+});
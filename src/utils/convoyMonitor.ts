@@ -0,0 +1,187 @@
+import { LatLng, haversineDistance } from './geo';
+import { formatDistance } from './format';
+
+export type ConvoyReference = 'leader' | 'centroid';
+
+export interface ConvoySettings {
+  enabled: boolean;
+  // Measure separation from whoever is furthest along the route, or from the middle of the group
+  reference: ConvoyReference;
+  maxSeparationMeters: number;
+  maxOffRouteMeters: number;
+  // How long someone has to stay off route before it counts, so a detour for fuel doesn't
+  offRouteGraceSeconds: number;
+}
+
+export const DEFAULT_CONVOY_SETTINGS: ConvoySettings = {
+  enabled: true,
+  reference: 'leader',
+  maxSeparationMeters: 5000,
+  maxOffRouteMeters: 500,
+  offRouteGraceSeconds: 120
+};
+
+export type ConvoyAlertType = 'separated' | 'offRoute';
+
+export interface ConvoyAlert {
+  uid: string;
+  type: ConvoyAlertType;
+  // Meters behind the reference, or off the route; updated while the alert lasts
+  distance: number;
+  raisedAt: number;
+}
+
+export interface ConvoyPosition {
+  uid: string;
+  location: LatLng;
+}
+
+export interface ConvoyState {
+  // When each traveler first went off route, while they still are
+  offRouteSince: Record<string, number>;
+  alerts: ConvoyAlert[];
+}
+
+export const INITIAL_CONVOY_STATE: ConvoyState = { offRouteSince: {}, alerts: [] };
+
+// Separation alerts clear a little inside the threshold, so GPS jitter right at the limit doesn't flap
+const SEPARATION_CLEAR_RATIO = 0.8;
+
+const EARTH_RADIUS_M = 6371000;
+
+// Flat projection around `origin`, accurate enough over a road segment
+const toLocalMeters = (point: LatLng, origin: LatLng) => ({
+  x: ((point.lng - origin.lng) * Math.PI / 180) * EARTH_RADIUS_M * Math.cos(origin.lat * Math.PI / 180),
+  y: ((point.lat - origin.lat) * Math.PI / 180) * EARTH_RADIUS_M
+});
+
+/**
+ * How far `point` is from `path`, and how far along the path its nearest point
+ * lies, both in meters. A single-point path has nothing to be along.
+ */
+export const locateOnPath = (point: LatLng, path: LatLng[]): { offPath: number; along: number } => {
+  if (path.length === 0) return { offPath: 0, along: 0 };
+  if (path.length === 1) return { offPath: haversineDistance(point, path[0]), along: 0 };
+
+  let best = { offPath: Infinity, along: 0 };
+  let travelled = 0;
+
+  for (let i = 0; i < path.length - 1; i++) {
+    const a = toLocalMeters(path[i], point);
+    const b = toLocalMeters(path[i + 1], point);
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lengthSquared = dx * dx + dy * dy;
+    // The point is the origin of the projection, so project (0, 0) onto the segment
+    const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, -(a.x * dx + a.y * dy) / lengthSquared));
+    const offPath = Math.hypot(a.x + t * dx, a.y + t * dy);
+    const segmentLength = Math.sqrt(lengthSquared);
+
+    if (offPath < best.offPath) {
+      best = { offPath, along: travelled + t * segmentLength };
+    }
+    travelled += segmentLength;
+  }
+
+  return best;
+};
+
+const centroidOf = (points: LatLng[]): LatLng => ({
+  lat: points.reduce((sum, point) => sum + point.lat, 0) / points.length,
+  lng: points.reduce((sum, point) => sum + point.lng, 0) / points.length
+});
+
+/**
+ * Meters each traveler trails the group by: along the route behind whoever is
+ * furthest ahead, or in a straight line from the group's centroid.
+ */
+export const getSeparations = (
+  positions: ConvoyPosition[],
+  path: LatLng[],
+  reference: ConvoyReference
+): Record<string, number> => {
+  const separations: Record<string, number> = {};
+
+  if (reference === 'centroid' || path.length < 2) {
+    const centroid = centroidOf(positions.map(position => position.location));
+    positions.forEach(position => {
+      separations[position.uid] = haversineDistance(position.location, centroid);
+    });
+    return separations;
+  }
+
+  const progress = positions.map(position => ({ uid: position.uid, along: locateOnPath(position.location, path).along }));
+  const leader = Math.max(...progress.map(entry => entry.along));
+  progress.forEach(entry => {
+    separations[entry.uid] = leader - entry.along;
+  });
+  return separations;
+};
+
+/**
+ * Advances the monitor to `now` given the latest live positions. Alerts are
+ * raised once and then kept up to date until the traveler is back within the
+ * limits, or stops reporting a live position.
+ *
+ * `route` is the road route, or null while it's loading or if routing failed.
+ * Separation then falls back to straight lines between `waypoints`, but nobody
+ * is judged off route against them, since real roads rarely follow them.
+ */
+export const evaluateConvoy = (
+  positions: ConvoyPosition[],
+  route: LatLng[] | null,
+  waypoints: LatLng[],
+  settings: ConvoySettings,
+  previous: ConvoyState,
+  now: number
+): ConvoyState => {
+  if (!settings.enabled || positions.length === 0) return INITIAL_CONVOY_STATE;
+
+  const existing = (uid: string, type: ConvoyAlertType) =>
+    previous.alerts.find(alert => alert.uid === uid && alert.type === type);
+  const raise = (uid: string, type: ConvoyAlertType, distance: number): ConvoyAlert => ({
+    uid,
+    type,
+    distance,
+    raisedAt: existing(uid, type)?.raisedAt ?? now
+  });
+
+  const alerts: ConvoyAlert[] = [];
+  const offRouteSince: Record<string, number> = {};
+
+  // Being apart needs at least two people
+  if (positions.length > 1) {
+    const separations = getSeparations(positions, route ?? waypoints, settings.reference);
+    positions.forEach(({ uid }) => {
+      const limit = existing(uid, 'separated')
+        ? settings.maxSeparationMeters * SEPARATION_CLEAR_RATIO
+        : settings.maxSeparationMeters;
+      if (separations[uid] > limit) alerts.push(raise(uid, 'separated', separations[uid]));
+    });
+  }
+
+  if (route && route.length > 1) {
+    positions.forEach(({ uid, location }) => {
+      const { offPath } = locateOnPath(location, route);
+      if (offPath <= settings.maxOffRouteMeters) return;
+
+      offRouteSince[uid] = previous.offRouteSince[uid] ?? now;
+      if (now - offRouteSince[uid] >= settings.offRouteGraceSeconds * 1000) {
+        alerts.push(raise(uid, 'offRoute', offPath));
+      }
+    });
+  }
+
+  return { offRouteSince, alerts };
+};
+
+// "Sam is 6.2 km behind the group"; `subject` is the traveler's name, or null for the current user
+export const describeConvoyAlert = (alert: ConvoyAlert, reference: ConvoyReference, subject: string | null) => {
+  const who = subject === null ? 'You are' : `${subject} is`;
+  const distance = formatDistance(alert.distance);
+
+  if (alert.type === 'offRoute') return `${who} ${distance} off the route`;
+  return reference === 'leader'
+    ? `${who} ${distance} behind the group`
+    : `${who} ${distance} from the rest of the group`;
+};
@@ -0,0 +1,148 @@
+import { describe, expect, it } from 'vitest';
+import {
+  Expense,
+  allocate,
+  computeBalances,
+  formatAmount,
+  parseAmount,
+  settleUp,
+  splitExpense,
+  toExpensesCsv,
+  validateExpense
+} from './expenses';
+
+const expense = (fields: Partial<Expense> & Pick<Expense, 'amount' | 'paidBy' | 'split'>): Expense => ({
+  id: 'e1',
+  description: 'Gas',
+  currency: 'USD',
+  stopId: null,
+  createdBy: fields.paidBy,
+  createdAt: Date.UTC(2026, 6, 4),
+  ...fields
+});
+
+const sum = (shares: Record<string, number>) => Object.values(shares).reduce((total, share) => total + share, 0);
+
+// What everyone's balance comes to once the transfers are paid
+const afterTransfers = (balances: Record<string, number>, transfers: ReturnType<typeof settleUp>) => {
+  const settled = { ...balances };
+  transfers.forEach(transfer => {
+    settled[transfer.from] += transfer.amount;
+    settled[transfer.to] -= transfer.amount;
+  });
+  return settled;
+};
+
+describe('allocate', () => {
+  it('gives the cents left over from an equal split to one person each', () => {
+    const shares = allocate(1000, { ana: 1, ben: 1, cy: 1 });
+    expect(shares).toEqual({ ana: 334, ben: 333, cy: 333 });
+
+    const four = allocate(1002, { ana: 1, ben: 1, cy: 1, dee: 1 });
+    expect(sum(four)).toBe(1002);
+    expect(Object.values(four).sort()).toEqual([250, 250, 251, 251]);
+  });
+
+  it('gives leftover cents to the largest remainders when splitting by shares', () => {
+    // 667.33 and 333.67: the cent goes to the bigger fraction
+    expect(allocate(1001, { ana: 2, ben: 1 })).toEqual({ ana: 667, ben: 334 });
+    expect(sum(allocate(9999, { ana: 3, ben: 5, cy: 7 }))).toBe(9999);
+  });
+
+  it('leaves out anyone with no share', () => {
+    expect(allocate(500, { ana: 1, ben: 0 })).toEqual({ ana: 500 });
+    expect(allocate(500, { ana: 0 })).toEqual({});
+  });
+
+  it('gives the same answer whatever order the travelers are listed in', () => {
+    expect(allocate(100, { cy: 1, ana: 1, ben: 1 })).toEqual(allocate(100, { ana: 1, ben: 1, cy: 1 }));
+  });
+});
+
+describe('validateExpense', () => {
+  it('rejects exact splits that do not add up to the total', () => {
+    const problem = validateExpense({ amount: 1000, currency: 'USD', split: { mode: 'exact', weights: { ana: 600, ben: 300 } } });
+    expect(problem).toBe('The split adds up to $9.00, not $10.00.');
+  });
+
+  it('accepts exact splits that do', () => {
+    expect(validateExpense({ amount: 1000, currency: 'USD', split: { mode: 'exact', weights: { ana: 600, ben: 400 } } })).toBeNull();
+  });
+
+  it('rejects fractional shares and empty splits', () => {
+    expect(validateExpense({ amount: 1000, currency: 'USD', split: { mode: 'shares', weights: { ana: 1.5 } } }))
+      .toBe('Shares must be whole numbers.');
+    expect(validateExpense({ amount: 1000, currency: 'USD', split: { mode: 'equal', weights: { ana: 0 } } }))
+      .toBe('Choose at least one person to split it with.');
+  });
+});
+
+describe('settleUp', () => {
+  it('balances everyone to zero in at most one transfer fewer than the people involved', () => {
+    const balances = { ana: 4500, ben: -1500, cy: -2000, dee: -1000 };
+    const transfers = settleUp(balances, 'USD');
+
+    expect(transfers.length).toBeLessThanOrEqual(3);
+    expect(Object.values(afterTransfers(balances, transfers)).every(balance => balance === 0)).toBe(true);
+  });
+
+  it('pays matching debts and credits directly', () => {
+    const transfers = settleUp({ ana: 700, ben: 300, cy: -300, dee: -700 }, 'EUR');
+    expect(transfers).toEqual([
+      { from: 'cy', to: 'ben', amount: 300, currency: 'EUR' },
+      { from: 'dee', to: 'ana', amount: 700, currency: 'EUR' }
+    ]);
+  });
+
+  it('needs no transfers once everyone is even', () => {
+    expect(settleUp({ ana: 0, ben: 0 }, 'USD')).toEqual([]);
+  });
+
+  it('settles the balances of split expenses', () => {
+    const balances = computeBalances([
+      expense({ amount: 1000, paidBy: 'ana', split: { mode: 'equal', weights: { ana: 1, ben: 1, cy: 1 } } }),
+      expense({ amount: 2500, paidBy: 'ben', split: { mode: 'shares', weights: { ana: 2, cy: 3 } } })
+    ]).USD;
+
+    expect(sum(balances)).toBe(0);
+    expect(Object.values(afterTransfers(balances, settleUp(balances, 'USD'))).every(balance => balance === 0)).toBe(true);
+  });
+});
+
+describe('amounts', () => {
+  it('formats minor units with the currency\'s decimals', () => {
+    expect(formatAmount(1250, 'USD')).toBe('12.50');
+    expect(formatAmount(5, 'USD')).toBe('0.05');
+    expect(formatAmount(-1250, 'USD')).toBe('-12.50');
+    expect(formatAmount(500, 'JPY')).toBe('500');
+  });
+
+  it('parses text without going through floats', () => {
+    expect(parseAmount('12.5', 'USD')).toBe(1250);
+    expect(parseAmount('0.29', 'USD')).toBe(29);
+    expect(parseAmount('1.234', 'USD')).toBeNull();
+    expect(parseAmount('5.5', 'JPY')).toBeNull();
+  });
+});
+
+describe('toExpensesCsv', () => {
+  it('writes amounts as plain decimals, per traveler and in the balances', () => {
+    const expenses = [
+      expense({ description: '=SUM(A1)', amount: 1000, paidBy: 'ana', split: { mode: 'equal', weights: { ana: 1, ben: 1, cy: 1 } } })
+    ];
+    const names: Record<string, string> = { ana: 'Ana', ben: 'Ben', cy: 'Cy' };
+    const rows = toExpensesCsv(expenses, ['ana', 'ben', 'cy'], uid => names[uid], () => null).split('\r\n');
+
+    expect(rows[0]).toBe('Date,Description,Paid by,Amount,Currency,Split,Stop,Ana,Ben,Cy');
+    // Formulas are defused so a spreadsheet shows them as text
+    expect(rows[1]).toBe("2026-07-04,'=SUM(A1),Ana,10.00,USD,Equally,,3.34,3.33,3.33");
+    expect(rows).toContain('Ana,USD,6.66');
+    expect(rows).toContain('Ben,USD,-3.33');
+    expect(rows).toContain('Ben,Ana,3.33,USD');
+  });
+
+  it('keeps the split of exact expenses as entered', () => {
+    expect(splitExpense({ amount: 1000, split: { mode: 'exact', weights: { ana: 999, ben: 1, cy: 0 } } }))
+      .toEqual({ ana: 999, ben: 1 });
+  });
+});
@@ -0,0 +1,266 @@
+/**
+ * Shared trip expenses. Every amount is an integer number of the currency's
+ * minor units (cents for USD, yen for JPY), so splitting and settling never
+ * loses or invents a cent to floating point.
+ */
+
+export type SplitMode = 'equal' | 'shares' | 'exact';
+
+export interface ExpenseSplit {
+  mode: SplitMode;
+  // Who shares the cost, by uid: 1 each for equal, their number of shares, or their exact amount
+  weights: Record<string, number>;
+}
+
+export interface Expense {
+  id: string;
+  description: string;
+  // Minor units
+  amount: number;
+  // ISO 4217 code
+  currency: string;
+  paidBy: string;
+  split: ExpenseSplit;
+  stopId: string | null;
+  createdBy: string;
+  // Epoch milliseconds, from the author's clock
+  createdAt: number;
+}
+
+export type NewExpense = Omit<Expense, 'id' | 'createdBy' | 'createdAt'>;
+
+// A payment that settles part of the group's balances
+export interface Transfer {
+  from: string;
+  to: string;
+  amount: number;
+  currency: string;
+}
+
+export const SPLIT_MODE_LABELS: Record<SplitMode, string> = {
+  equal: 'Equally',
+  shares: 'By shares',
+  exact: 'By amount'
+};
+
+export const CURRENCIES = ['USD', 'CAD', 'MXN', 'EUR', 'GBP', 'CHF', 'AUD', 'NZD', 'JPY', 'KRW', 'INR'];
+
+export const DESCRIPTION_MAX_LENGTH = 80;
+
+// Digits after the decimal point: 2 for most currencies, 0 for JPY and KRW
+export const getCurrencyDigits = (currency: string) => {
+  try {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency }).resolvedOptions().maximumFractionDigits ?? 2;
+  } catch {
+    return 2;
+  }
+};
+
+/**
+ * "12.5" in USD → 1250. Parsed as text rather than through a float; null when
+ * it isn't a positive amount with at most the currency's number of decimals.
+ */
+export const parseAmount = (text: string, currency: string): number | null => {
+  const match = /^(\d+)(?:\.(\d*))?$/.exec(text.trim().replace(/,/g, ''));
+  if (!match) return null;
+
+  const digits = getCurrencyDigits(currency);
+  const fraction = match[2] ?? '';
+  if (fraction.length > digits) return null;
+
+  const amount = Number(match[1]) * 10 ** digits + Number(fraction.padEnd(digits, '0') || 0);
+  return Number.isSafeInteger(amount) ? amount : null;
+};
+
+// 1250 in USD → "12.50"; the plain number for inputs and CSV
+export const formatAmount = (amount: number, currency: string) => {
+  const digits = getCurrencyDigits(currency);
+  const sign = amount < 0 ? '-' : '';
+  const units = String(Math.abs(amount)).padStart(digits + 1, '0');
+  return digits === 0 ? `${sign}${units}` : `${sign}${units.slice(0, -digits)}.${units.slice(-digits)}`;
+};
+
+// 1250 in USD → "$12.50"
+export const formatMoney = (amount: number, currency: string) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(amount / 10 ** getCurrencyDigits(currency));
+
+/**
+ * Divides `amount` in proportion to `weights`, in whole minor units that add
+ * up exactly. The units left over after rounding down go to the largest
+ * remainders, ties broken by uid so every client gets the same answer.
+ */
+export const allocate = (amount: number, weights: Record<string, number>): Record<string, number> => {
+  const entries = Object.entries(weights)
+    .filter(([, weight]) => weight > 0)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  const total = entries.reduce((sum, [, weight]) => sum + weight, 0);
+  if (total === 0) return {};
+
+  const parts = entries.map(([uid, weight]) => {
+    const exact = (amount * weight) / total;
+    return { uid, share: Math.floor(exact), remainder: exact - Math.floor(exact) };
+  });
+
+  let leftover = amount - parts.reduce((sum, part) => sum + part.share, 0);
+  [...parts]
+    .sort((a, b) => b.remainder - a.remainder)
+    .forEach(part => {
+      if (leftover > 0) {
+        part.share += 1;
+        leftover -= 1;
+      }
+    });
+
+  return Object.fromEntries(parts.map(part => [part.uid, part.share]));
+};
+
+// What each traveler's part of the expense comes to
+export const splitExpense = (expense: Pick<Expense, 'amount' | 'split'>): Record<string, number> =>
+  expense.split.mode === 'exact'
+    ? Object.fromEntries(Object.entries(expense.split.weights).filter(([, amount]) => amount > 0))
+    : allocate(expense.amount, expense.split.weights);
+
+// Why an expense can't be saved as entered, or null if it can
+export const validateExpense = (expense: Pick<Expense, 'amount' | 'currency' | 'split'>): string | null => {
+  if (!Number.isSafeInteger(expense.amount) || expense.amount <= 0) return 'Enter an amount above zero.';
+
+  const weights = Object.values(expense.split.weights);
+  if (!weights.some(weight => weight > 0)) return 'Choose at least one person to split it with.';
+  if (!weights.every(weight => Number.isSafeInteger(weight) && weight >= 0)) {
+    return expense.split.mode === 'shares' ? 'Shares must be whole numbers.' : 'Check the amounts for each person.';
+  }
+
+  if (expense.split.mode === 'exact') {
+    const assigned = weights.reduce((sum, weight) => sum + weight, 0);
+    if (assigned !== expense.amount) {
+      return `The split adds up to ${formatMoney(assigned, expense.currency)}, not ${formatMoney(expense.amount, expense.currency)}.`;
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Net position of every traveler in each currency: positive when the group
+ * owes them, negative when they owe the group. Currencies are never converted.
+ */
+export const computeBalances = (expenses: Expense[]): Record<string, Record<string, number>> => {
+  const balances: Record<string, Record<string, number>> = {};
+
+  expenses.forEach(expense => {
+    if (!balances[expense.currency]) balances[expense.currency] = {};
+    const balance = balances[expense.currency];
+    balance[expense.paidBy] = (balance[expense.paidBy] ?? 0) + expense.amount;
+    Object.entries(splitExpense(expense)).forEach(([uid, share]) => {
+      balance[uid] = (balance[uid] ?? 0) - share;
+    });
+  });
+
+  return balances;
+};
+
+/**
+ * Payments that bring every balance in `balances` (one currency) to zero.
+ * People who owe exactly what someone else is owed pay them directly; the
+ * rest are settled largest debt to largest credit, which takes at most one
+ * transfer fewer than the number of people involved.
+ */
+export const settleUp = (balances: Record<string, number>, currency: string): Transfer[] => {
+  const byUid = (a: { uid: string }, b: { uid: string }) => (a.uid < b.uid ? -1 : a.uid > b.uid ? 1 : 0);
+  const debtors = Object.entries(balances)
+    .filter(([, balance]) => balance < 0)
+    .map(([uid, balance]) => ({ uid, amount: -balance }))
+    .sort(byUid);
+  const creditors = Object.entries(balances)
+    .filter(([, balance]) => balance > 0)
+    .map(([uid, balance]) => ({ uid, amount: balance }))
+    .sort(byUid);
+
+  const transfers: Transfer[] = [];
+
+  debtors.forEach(debtor => {
+    const match = creditors.find(creditor => creditor.amount === debtor.amount);
+    if (!match) return;
+    transfers.push({ from: debtor.uid, to: match.uid, amount: debtor.amount, currency });
+    debtor.amount = 0;
+    match.amount = 0;
+  });
+
+  const byAmount = (a: { amount: number }, b: { amount: number }) => b.amount - a.amount;
+  let remainingDebtors = debtors.filter(debtor => debtor.amount > 0);
+  let remainingCreditors = creditors.filter(creditor => creditor.amount > 0);
+
+  while (remainingDebtors.length > 0 && remainingCreditors.length > 0) {
+    const debtor = remainingDebtors.sort(byAmount)[0];
+    const creditor = remainingCreditors.sort(byAmount)[0];
+    const amount = Math.min(debtor.amount, creditor.amount);
+
+    transfers.push({ from: debtor.uid, to: creditor.uid, amount, currency });
+    debtor.amount -= amount;
+    creditor.amount -= amount;
+    remainingDebtors = remainingDebtors.filter(entry => entry.amount > 0);
+    remainingCreditors = remainingCreditors.filter(entry => entry.amount > 0);
+  }
+
+  return transfers;
+};
+
+// Quoted where needed; text that a spreadsheet would run as a formula is defused
+const csvCell = (value: string) => {
+  const safe = /^[=+\-@]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+const csvRow = (cells: string[]) => cells.join(',');
+
+/**
+ * Every expense with each traveler's part, followed by the balances and the
+ * transfers that settle them, one section after another.
+ */
+export const toExpensesCsv = (
+  expenses: Expense[],
+  travelers: string[],
+  nameOf: (uid: string) => string,
+  stopNameOf: (stopId: string) => string | null
+): string => {
+  const rows: string[] = [];
+
+  rows.push(csvRow(['Date', 'Description', 'Paid by', 'Amount', 'Currency', 'Split', 'Stop', ...travelers.map(uid => csvCell(nameOf(uid)))]));
+  expenses.forEach(expense => {
+    const shares = splitExpense(expense);
+    rows.push(csvRow([
+      new Date(expense.createdAt).toISOString().slice(0, 10),
+      csvCell(expense.description),
+      csvCell(nameOf(expense.paidBy)),
+      formatAmount(expense.amount, expense.currency),
+      expense.currency,
+      SPLIT_MODE_LABELS[expense.split.mode],
+      csvCell((expense.stopId && stopNameOf(expense.stopId)) ?? ''),
+      ...travelers.map(uid => (shares[uid] ? formatAmount(shares[uid], expense.currency) : ''))
+    ]));
+  });
+
+  const balances = computeBalances(expenses);
+  const currencies = Object.keys(balances).sort();
+
+  rows.push('', csvRow(['Traveler', 'Currency', 'Balance']));
+  currencies.forEach(currency => {
+    travelers.forEach(uid => {
+      rows.push(csvRow([csvCell(nameOf(uid)), currency, formatAmount(balances[currency][uid] ?? 0, currency)]));
+    });
+  });
+
+  rows.push('', csvRow(['From', 'To', 'Amount', 'Currency']));
+  currencies.forEach(currency => {
+    settleUp(balances[currency], currency).forEach(transfer => {
+      rows.push(csvRow([
+        csvCell(nameOf(transfer.from)),
+        csvCell(nameOf(transfer.to)),
+        formatAmount(transfer.amount, currency),
+        currency
+      ]));
+    });
+  });
+
+  return rows.join('\r\n') + '\r\n';
+};
@@ -0,0 +1,30 @@
+export const formatDistance = (meters: number): string =>
+  meters < 1000 ? `${Math.round(meters)} m` : `${(meters / 1000).toFixed(meters < 100000 ? 1 : 0)} km`;
+
+export const formatDuration = (seconds: number): string => {
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) return `${minutes} min`;
+
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return rest === 0 ? `${hours} h` : `${hours} h ${rest} min`;
+};
+
+const formatDay = (date: Date, withYear: boolean) =>
+  new Intl.DateTimeFormat('en-US', { month: 'short', day: 'numeric', year: withYear ? 'numeric' : undefined }).format(date);
+
+// "Jun 3 – 7, 2026"-style range for a trip's ISO start and end; null when neither is set
+export const formatDateRange = (start: string | null | undefined, end: string | null | undefined): string | null => {
+  if (!start && !end) return null;
+  if (!start || !end) return formatDay(new Date((start || end)!), true);
+
+  const startDate = new Date(start);
+  const endDate = new Date(end);
+  if (startDate.toDateString() === endDate.toDateString()) return formatDay(startDate, true);
+
+  const sameYear = startDate.getFullYear() === endDate.getFullYear();
+  return `${formatDay(startDate, !sameYear)} – ${formatDay(endDate, true)}`;
+};
+
+export const formatTime = (ms: number): string =>
+  new Intl.DateTimeFormat('en-US', { weekday: 'short', hour: 'numeric', minute: '2-digit' }).format(new Date(ms));
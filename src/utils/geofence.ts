@@ -0,0 +1,71 @@
+import { Trip } from '../contexts/TripContext';
+import { LatLng, haversineDistance } from './geo';
+
+export interface Geofence {
+  // 'origin', 'destination' or the stop's id
+  id: string;
+  name: string;
+  center: LatLng;
+  // Meters
+  radius: number;
+}
+
+export type GeofenceCrossingType = 'arrive' | 'depart';
+
+export interface GeofenceCrossing {
+  geofenceId: string;
+  type: GeofenceCrossingType;
+}
+
+export const DEFAULT_GEOFENCE_RADIUS_METERS = 200;
+export const MIN_GEOFENCE_RADIUS_METERS = 25;
+export const MAX_GEOFENCE_RADIUS_METERS = 5000;
+
+// Leaving takes getting this much further out than arriving did, so a fix jittering on the boundary doesn't flap
+const EXIT_RADIUS_RATIO = 1.5;
+const MIN_EXIT_MARGIN_METERS = 50;
+
+export const getTripGeofences = (trip: Trip): Geofence[] => [
+  { id: 'origin', name: trip.origin.name, center: trip.origin.location, radius: DEFAULT_GEOFENCE_RADIUS_METERS },
+  ...trip.stops.map(stop => ({
+    id: stop.id,
+    name: stop.name,
+    center: stop.location,
+    radius: stop.arrivalRadius ?? DEFAULT_GEOFENCE_RADIUS_METERS
+  })),
+  { id: 'destination', name: trip.destination.name, center: trip.destination.location, radius: DEFAULT_GEOFENCE_RADIUS_METERS }
+];
+
+export const getExitRadius = (geofence: Geofence) =>
+  Math.max(geofence.radius * EXIT_RADIUS_RATIO, geofence.radius + MIN_EXIT_MARGIN_METERS);
+
+/**
+ * Which geofences a traveler is in after a position fix, given the ones they
+ * were in before, and the arrivals and departures that took. A fix less
+ * accurate than a geofence's radius can't count as arriving there.
+ */
+export const detectGeofenceCrossings = (
+  geofences: Geofence[],
+  location: LatLng,
+  accuracy: number,
+  inside: string[]
+): { inside: string[]; crossings: GeofenceCrossing[] } => {
+  const crossings: GeofenceCrossing[] = [];
+  const nowInside: string[] = [];
+
+  geofences.forEach(geofence => {
+    const distance = haversineDistance(location, geofence.center);
+    const wasInside = inside.includes(geofence.id);
+
+    if (wasInside && distance > getExitRadius(geofence)) {
+      crossings.push({ geofenceId: geofence.id, type: 'depart' });
+    } else if (!wasInside && distance <= geofence.radius && accuracy <= geofence.radius) {
+      crossings.push({ geofenceId: geofence.id, type: 'arrive' });
+      nowInside.push(geofence.id);
+    } else if (wasInside) {
+      nowInside.push(geofence.id);
+    }
+  });
+
+  return { inside: nowInside, crossings };
+};
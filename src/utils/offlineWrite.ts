@@ -0,0 +1,16 @@
+/**
+ * Firestore applies a write locally (and to snapshot listeners) right away,
+ * but its promise only settles once the server acknowledges it. Offline that
+ * would leave the UI waiting until reconnect, so the write is left queued in
+ * the persistent cache and the caller carries on.
+ */
+export const awaitWriteIfOnline = async (write: Promise<void>): Promise<void> => {
+  if (navigator.onLine) {
+    await write;
+    return;
+  }
+
+  write.catch(error => {
+    console.error('Error replaying offline write:', error);
+  });
+};
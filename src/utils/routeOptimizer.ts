@@ -0,0 +1,107 @@
+import { Stop } from '../contexts/TripContext';
+import { LatLng, haversineDistance } from './geo';
+
+export type DistanceFn = (a: LatLng, b: LatLng) => number;
+
+interface OptimizeOptions {
+  origin: LatLng;
+  destination: LatLng;
+  stops: Stop[];
+  // These stops keep their current index in the list
+  pinnedStopIds?: Iterable<string>;
+  distance?: DistanceFn;
+}
+
+export interface OptimizeResult {
+  stops: Stop[];
+  originalDistance: number;
+  optimizedDistance: number;
+}
+
+// Guards against floating point noise making 2-opt loop on equal-length tours
+const EPSILON = 1e-6;
+
+/**
+ * Orders stops between a fixed origin and destination to shorten the drive.
+ * Nearest-neighbour builds a first tour, then 2-opt reverses runs of free
+ * stops while that makes the tour shorter. Pinned stops never move.
+ */
+export const optimizeStopOrder = ({
+  origin,
+  destination,
+  stops,
+  pinnedStopIds = [],
+  distance = haversineDistance
+}: OptimizeOptions): OptimizeResult => {
+  const pinned = new Set(pinnedStopIds);
+
+  // Points are indexed 0 = origin, 1..n = stops, n + 1 = destination
+  const points = [origin, ...stops.map(stop => stop.location), destination];
+  const matrix = points.map(a => points.map(b => distance(a, b)));
+
+  const tourLength = (order: number[]) => {
+    let total = matrix[0][order[0] ?? points.length - 1];
+    for (let i = 1; i < order.length; i++) {
+      total += matrix[order[i - 1]][order[i]];
+    }
+    return total + (order.length > 0 ? matrix[order[order.length - 1]][points.length - 1] : 0);
+  };
+
+  const originalOrder = stops.map((_, index) => index + 1);
+  const originalDistance = tourLength(originalOrder);
+
+  // Slots the optimizer is allowed to fill
+  const freeSlots = originalOrder.map((_, slot) => slot).filter(slot => !pinned.has(stops[slot].id));
+
+  // Nearest neighbour, walking the slots in order and skipping pinned ones
+  const unvisited = new Set(freeSlots.map(slot => slot + 1));
+  const order = [...originalOrder];
+  let previous = 0;
+  for (let slot = 0; slot < order.length; slot++) {
+    if (!pinned.has(stops[slot].id)) {
+      let nearest = -1;
+      for (const candidate of unvisited) {
+        if (nearest === -1 || matrix[previous][candidate] < matrix[previous][nearest]) {
+          nearest = candidate;
+        }
+      }
+      unvisited.delete(nearest);
+      order[slot] = nearest;
+    }
+    previous = order[slot];
+  }
+
+  // 2-opt over the free slots: reverse which stops occupy slots i..j
+  let bestLength = tourLength(order);
+  let improved = true;
+  while (improved) {
+    improved = false;
+    for (let i = 0; i < freeSlots.length - 1; i++) {
+      for (let j = i + 1; j < freeSlots.length; j++) {
+        const segment = freeSlots.slice(i, j + 1);
+        const candidate = [...order];
+        segment.forEach((slot, k) => {
+          candidate[slot] = order[segment[segment.length - 1 - k]];
+        });
+
+        const length = tourLength(candidate);
+        if (length < bestLength - EPSILON) {
+          order.splice(0, order.length, ...candidate);
+          bestLength = length;
+          improved = true;
+        }
+      }
+    }
+  }
+
+  // Never hand back something worse than what the user already has
+  if (bestLength >= originalDistance) {
+    return { stops, originalDistance, optimizedDistance: originalDistance };
+  }
+
+  return {
+    stops: order.map(index => stops[index - 1]),
+    originalDistance,
+    optimizedDistance: bestLength
+  };
+};
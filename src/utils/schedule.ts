@@ -0,0 +1,109 @@
+import { Trip } from '../contexts/TripContext';
+import { RouteLeg } from '../services/routing';
+
+export type ScheduleStatus = 'unplanned' | 'on-time' | 'late' | 'infeasible';
+
+export interface TimelineEntry {
+  // 'origin', 'destination' or a stop id
+  id: string;
+  name: string;
+  // Epoch milliseconds; null when there's no departure time or drive time to project from
+  projectedArrival: number | null;
+  projectedDeparture: number | null;
+  plannedArrival: number | null;
+  // When the group has to leave to keep to the plan
+  plannedDeparture: number | null;
+  dwellMinutes: number;
+  status: ScheduleStatus;
+}
+
+export interface Timeline {
+  entries: TimelineEntry[];
+  // Entries arriving after their planned departure, or the destination after the trip ends
+  infeasible: TimelineEntry[];
+}
+
+const MINUTE_MS = 60 * 1000;
+
+const toTime = (iso: string | null | undefined) => (iso ? new Date(iso).getTime() : null);
+
+/**
+ * Projects arrival and departure times along the trip from its start date
+ * and the route's drive times. Arriving at a stop before its planned arrival
+ * means waiting for it; the dwell starts from whichever is later. Arriving
+ * after the planned arrival is late, and after the planned departure
+ * (planned arrival plus dwell) the plan can't be kept at all. Without drive
+ * times only the planned times are filled in.
+ */
+export const computeTimeline = (trip: Trip, route: RouteLeg[] | null): Timeline => {
+  // A route from before the latest stop change doesn't line up with the stops
+  const legs = route && route.length === trip.stops.length + 1 ? route : null;
+  let clock = legs ? toTime(trip.startDate) : null;
+
+  const origin: TimelineEntry = {
+    id: 'origin',
+    name: trip.origin.name,
+    projectedArrival: null,
+    projectedDeparture: clock,
+    plannedArrival: null,
+    plannedDeparture: toTime(trip.startDate),
+    dwellMinutes: 0,
+    status: trip.startDate ? 'on-time' : 'unplanned'
+  };
+
+  const stops = trip.stops.map((stop, index): TimelineEntry => {
+    const projectedArrival = clock !== null && legs ? clock + legs[index].duration * 1000 : null;
+    const plannedArrival = toTime(stop.plannedArrival);
+    const dwellMinutes = stop.dwellMinutes ?? 0;
+    const plannedDeparture = plannedArrival !== null ? plannedArrival + dwellMinutes * MINUTE_MS : null;
+
+    let status: ScheduleStatus = 'unplanned';
+    if (plannedArrival !== null && projectedArrival !== null) {
+      if (projectedArrival > plannedDeparture!) status = 'infeasible';
+      else if (projectedArrival > plannedArrival) status = 'late';
+      else status = 'on-time';
+    }
+
+    clock = projectedArrival !== null
+      ? Math.max(projectedArrival, plannedArrival ?? projectedArrival) + dwellMinutes * MINUTE_MS
+      : null;
+
+    return {
+      id: stop.id,
+      name: stop.name,
+      projectedArrival,
+      projectedDeparture: clock,
+      plannedArrival,
+      plannedDeparture,
+      dwellMinutes,
+      status
+    };
+  });
+
+  const destinationArrival = clock !== null && legs ? clock + legs[legs.length - 1].duration * 1000 : null;
+  const tripEnd = toTime(trip.endDate);
+  const destination: TimelineEntry = {
+    id: 'destination',
+    name: trip.destination.name,
+    projectedArrival: destinationArrival,
+    projectedDeparture: null,
+    plannedArrival: null,
+    plannedDeparture: null,
+    dwellMinutes: 0,
+    status: tripEnd === null || destinationArrival === null
+      ? 'unplanned'
+      : destinationArrival > tripEnd ? 'infeasible' : 'on-time'
+  };
+
+  const entries = [origin, ...stops, destination];
+  return { entries, infeasible: entries.filter(entry => entry.status === 'infeasible') };
+};
+
+// <input type="datetime-local"> works in local wall-clock time; trips store ISO instants
+export const toDateTimeInputValue = (iso: string | null | undefined) => {
+  if (!iso) return '';
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * MINUTE_MS).toISOString().slice(0, 16);
+};
+
+export const fromDateTimeInputValue = (value: string) => (value ? new Date(value).toISOString() : null);
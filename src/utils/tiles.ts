@@ -0,0 +1,57 @@
+import { LatLng } from './geo';
+
+// Web Mercator slippy-map tiles, as used by XYZ tile servers and Google Maps
+
+export interface Tile {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface Bounds {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
+// Mercator is undefined at the poles; tile servers clip here
+const MAX_LATITUDE = 85.05112878;
+
+const lngToTileX = (lng: number, z: number) =>
+  Math.floor(((lng + 180) / 360) * 2 ** z);
+
+const latToTileY = (lat: number, z: number) => {
+  const clamped = Math.max(-MAX_LATITUDE, Math.min(MAX_LATITUDE, lat));
+  const radians = (clamped * Math.PI) / 180;
+  return Math.floor(((1 - Math.log(Math.tan(radians) + 1 / Math.cos(radians)) / Math.PI) / 2) * 2 ** z);
+};
+
+// Smallest box around `points`, grown by `padding` degrees on every side
+export const getBounds = (points: LatLng[], padding = 0): Bounds => ({
+  south: Math.min(...points.map(point => point.lat)) - padding,
+  west: Math.min(...points.map(point => point.lng)) - padding,
+  north: Math.max(...points.map(point => point.lat)) + padding,
+  east: Math.max(...points.map(point => point.lng)) + padding
+});
+
+export const getTilesForBounds = (bounds: Bounds, z: number): Tile[] => {
+  const max = 2 ** z - 1;
+  const minX = Math.max(0, lngToTileX(bounds.west, z));
+  const maxX = Math.min(max, lngToTileX(bounds.east, z));
+  // Tile rows count down from the north
+  const minY = Math.max(0, latToTileY(bounds.north, z));
+  const maxY = Math.min(max, latToTileY(bounds.south, z));
+
+  const tiles: Tile[] = [];
+  for (let x = minX; x <= maxX; x++) {
+    for (let y = minY; y <= maxY; y++) {
+      tiles.push({ x, y, z });
+    }
+  }
+  return tiles;
+};
+
+// Fills a `{z}/{x}/{y}` URL template
+export const formatTileUrl = (template: string, { x, y, z }: Tile) =>
+  template.replace('{z}', String(z)).replace('{x}', String(x)).replace('{y}', String(y));
@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import { Stop } from '../contexts/TripContext';
+import { buildStopList, planStopEdit, positionBetween, StopEdit, StopOp } from './tripCrdt';
+
+const stop = (id: string, name = id): Stop => ({ id, name, location: { lat: 0, lng: 0 } });
+
+// Applies `edits` one after another on a replica that has seen `ops`, returning only the new operations
+const edit = (baseline: Stop[], ops: StopOp[], replicaId: string, edits: StopEdit[]): StopOp[] => {
+  const made: StopOp[] = [];
+  edits.forEach(next => {
+    made.push(...planStopEdit(buildStopList(baseline, [...ops, ...made]), next, replicaId));
+  });
+  return made;
+};
+
+// Every way the server could deliver both replicas' operations, short of all permutations
+const deliveries = (a: StopOp[], b: StopOp[]): StopOp[][] => {
+  const interleaved: StopOp[] = [];
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    if (b[i]) interleaved.push(b[i]);
+    if (a[i]) interleaved.push(a[i]);
+  }
+  return [[...a, ...b], [...b, ...a], [...a, ...b].reverse(), interleaved];
+};
+
+const names = (baseline: Stop[], ops: StopOp[]) => buildStopList(baseline, ops).stops.map(s => s.name);
+
+describe('positionBetween', () => {
+  it('sorts between its neighbours', () => {
+    const first = positionBetween(null, null);
+    const last = positionBetween(first, null);
+    const middle = positionBetween(first, last);
+    expect([last, middle, first].sort()).toEqual([first, middle, last]);
+    expect(positionBetween(null, first) < first).toBe(true);
+  });
+});
+
+describe('concurrent stop edits', () => {
+  const shared = edit([], [], 'a', [
+    { type: 'add', stop: stop('s1', 'Denver') },
+    { type: 'add', stop: stop('s2', 'Moab') },
+    { type: 'add', stop: stop('s3', 'Zion') }
+  ]);
+
+  it('builds the list both replicas started from', () => {
+    expect(names([], shared)).toEqual(['Denver', 'Moab', 'Zion']);
+  });
+
+  it('converges whatever order adds, moves, renames and removes arrive in', () => {
+    const fromA = edit([], shared, 'a', [
+      { type: 'reorder', stopIds: ['s3', 's1', 's2'] },
+      { type: 'update', stopId: 's1', changes: { name: 'Boulder' } }
+    ]);
+    const fromB = edit([], shared, 'b', [
+      { type: 'update', stopId: 's1', changes: { name: 'Golden' } },
+      { type: 'remove', stopId: 's2' },
+      { type: 'add', stop: stop('s4', 'Bryce') }
+    ]);
+
+    const results = deliveries(fromA, fromB).map(ops => buildStopList([], [...shared, ...ops]).stops);
+    results.forEach(stops => expect(stops).toEqual(results[0]));
+
+    const merged = results[0].map(s => s.name);
+    // Both moves and the add land; the removal holds; one of the renames wins everywhere
+    expect(merged).toHaveLength(3);
+    expect(merged[0]).toBe('Zion');
+    expect(merged).toContain('Bryce');
+    expect(merged).not.toContain('Moab');
+    expect(['Boulder', 'Golden']).toContain(merged[1]);
+  });
+
+  it('keeps a removed stop removed when it is edited at the same time', () => {
+    const fromA = edit([], shared, 'a', [{ type: 'remove', stopId: 's2' }]);
+    const fromB = edit([], shared, 'b', [
+      { type: 'update', stopId: 's2', changes: { name: 'Arches' } },
+      { type: 'reorder', stopIds: ['s2', 's1', 's3'] }
+    ]);
+
+    deliveries(fromA, fromB).forEach(ops => {
+      expect(names([], [...shared, ...ops])).toEqual(['Denver', 'Zion']);
+    });
+  });
+
+  it('applies concurrent moves of different stops', () => {
+    const fromA = edit([], shared, 'a', [{ type: 'reorder', stopIds: ['s2', 's1', 's3'] }]);
+    const fromB = edit([], shared, 'b', [{ type: 'reorder', stopIds: ['s1', 's3', 's2'] }]);
+
+    const results = deliveries(fromA, fromB).map(ops => names([], [...shared, ...ops]));
+    results.forEach(result => expect(result).toEqual(results[0]));
+    expect(results[0]).toHaveLength(3);
+  });
+
+  it('lets an edit made after seeing another one win over it', () => {
+    const first = edit([], shared, 'a', [{ type: 'update', stopId: 's1', changes: { name: 'Boulder' } }]);
+    const second = edit([], [...shared, ...first], 'b', [{ type: 'update', stopId: 's1', changes: { name: 'Golden' } }]);
+
+    deliveries(first, second).forEach(ops => {
+      expect(names([], [...shared, ...ops])).toEqual(['Golden', 'Moab', 'Zion']);
+    });
+  });
+
+  it('converges on trips whose stops predate operations', () => {
+    const baseline = [stop('s1', 'Denver'), stop('s2', 'Moab'), stop('s3', 'Zion')];
+    const fromA = edit(baseline, [], 'a', [{ type: 'reorder', stopIds: ['s3', 's1', 's2'] }]);
+    const fromB = edit(baseline, [], 'b', [
+      { type: 'update', stopId: 's2', changes: { name: 'Arches' } },
+      { type: 'add', stop: stop('s4', 'Bryce') }
+    ]);
+
+    const results = deliveries(fromA, fromB).map(ops => names(baseline, ops));
+    results.forEach(result => expect(result).toEqual(results[0]));
+    expect(results[0][0]).toBe('Zion');
+    expect(results[0]).toContain('Bryce');
+  });
+});
@@ -0,0 +1,257 @@
+import { Stop } from '../contexts/TripContext';
+
+/**
+ * Stops are edited as operations rather than by rewriting the stops array, so
+ * edits made at the same time on different devices (or offline) merge instead
+ * of overwriting each other. Every client folds the same set of operations
+ * into the same list, whatever order they arrived in.
+ *
+ * Each field of a stop is a last-writer-wins register. "Last" is decided by
+ * vector clocks: an edit made after seeing another one always beats it, and
+ * truly concurrent edits are ordered by a fixed tie-break. The list order is
+ * itself a register per stop holding a fractional position key, so moving a
+ * stop only touches that stop and concurrent moves of different stops both
+ * apply. Removal sets a tombstone, which later edits don't undo.
+ */
+
+// Per replica (device), how many operations it had made that this one has seen
+export type VectorClock = Record<string, number>;
+
+export interface Stamp {
+  clock: VectorClock;
+  replicaId: string;
+}
+
+// What an operation can set on a stop: its own fields, its place in the list and a tombstone
+export type StopFields = Omit<Stop, 'id'> & {
+  position: string;
+  deleted: boolean;
+};
+
+export interface StopOp {
+  stopId: string;
+  fields: Partial<StopFields>;
+  stamp: Stamp;
+}
+
+export type StopEdit =
+  | { type: 'add'; stop: Stop }
+  | { type: 'update'; stopId: string; changes: Partial<Omit<Stop, 'id'>> }
+  | { type: 'remove'; stopId: string }
+  | { type: 'reorder'; stopIds: string[] };
+
+export interface StopListState {
+  // Visible stops, in list order
+  stops: Stop[];
+  positions: Record<string, string>;
+  // Stops that only exist in the baseline array, from before operations were used
+  untracked: Stop[];
+  // Everything this state has seen, the starting point for new operations
+  clock: VectorClock;
+}
+
+export const compareClocks = (a: VectorClock, b: VectorClock): 'before' | 'after' | 'equal' | 'concurrent' => {
+  let aAhead = false;
+  let bAhead = false;
+  new Set([...Object.keys(a), ...Object.keys(b)]).forEach(replica => {
+    const diff = (a[replica] ?? 0) - (b[replica] ?? 0);
+    if (diff > 0) aAhead = true;
+    if (diff < 0) bAhead = true;
+  });
+
+  if (aAhead && bAhead) return 'concurrent';
+  if (aAhead) return 'after';
+  if (bAhead) return 'before';
+  return 'equal';
+};
+
+export const mergeClocks = (clocks: VectorClock[]): VectorClock => {
+  const merged: VectorClock = {};
+  clocks.forEach(clock => {
+    Object.entries(clock).forEach(([replica, count]) => {
+      merged[replica] = Math.max(merged[replica] ?? 0, count);
+    });
+  });
+  return merged;
+};
+
+const clockSize = (clock: VectorClock) => Object.values(clock).reduce((sum, count) => sum + count, 0);
+
+/**
+ * Total order on stamps that respects causality. Concurrent stamps go to the
+ * one that has seen more operations, then to the greater replica id; any rule
+ * works as long as every client applies the same one.
+ */
+export const compareStamps = (a: Stamp, b: Stamp): number => {
+  const order = compareClocks(a.clock, b.clock);
+  if (order === 'after') return 1;
+  if (order === 'before') return -1;
+  return clockSize(a.clock) - clockSize(b.clock) || a.replicaId.localeCompare(b.replicaId);
+};
+
+const DIGITS = '0123456789abcdefghijklmnopqrstuvwxyz';
+
+/**
+ * A key sorting strictly between `before` and `after` (null for either end of
+ * the list). Keys never end in '0', so there is always room for another one.
+ */
+export const positionBetween = (before: string | null, after: string | null): string => {
+  let key = '';
+  let upper = after;
+  for (let i = 0; ; i++) {
+    const low = before && i < before.length ? DIGITS.indexOf(before[i]) : 0;
+    const high = upper && i < upper.length ? DIGITS.indexOf(upper[i]) : DIGITS.length;
+
+    if (high - low > 1) {
+      return key + DIGITS[Math.floor((low + high) / 2)];
+    }
+
+    key += DIGITS[low];
+    // Once the key is below `after` at this digit, anything can follow
+    if (low < high) upper = null;
+  }
+};
+
+// Keys for a list built in one go, e.g. the stops a trip was created with
+const sequentialPositions = (count: number): string[] => {
+  const positions: string[] = [];
+  for (let i = 0; i < count; i++) {
+    positions.push(positionBetween(positions[i - 1] ?? null, null));
+  }
+  return positions;
+};
+
+const byPosition = (positions: Record<string, string>) => (a: Stop, b: Stop) =>
+  positions[a.id].localeCompare(positions[b.id]) || a.id.localeCompare(b.id);
+
+/**
+ * Folds `ops` over `baseline`, the stops array stored on the trip. Stops with
+ * operations are built from them alone; baseline stops with none (trips from
+ * before operations) keep their stored values and order until first edited.
+ */
+export const buildStopList = (baseline: Stop[], ops: StopOp[]): StopListState => {
+  const registers: Record<string, Record<string, { value: unknown; stamp: Stamp }>> = {};
+  ops.forEach(op => {
+    const stop = (registers[op.stopId] ??= {});
+    Object.entries(op.fields).forEach(([field, value]) => {
+      const current = stop[field];
+      if (!current || compareStamps(op.stamp, current.stamp) > 0) {
+        stop[field] = { value, stamp: op.stamp };
+      }
+    });
+  });
+
+  const positions: Record<string, string> = {};
+  const stops: Stop[] = [];
+  Object.entries(registers).forEach(([stopId, fields]) => {
+    const values = Object.fromEntries(Object.entries(fields).map(([field, register]) => [field, register.value]));
+    const { position, deleted, ...stop } = values as Partial<StopFields>;
+    // A stop whose insert hasn't arrived yet has no position; show it once it does
+    if (deleted || position === undefined || stop.name === undefined || stop.location === undefined) return;
+    positions[stopId] = position;
+    stops.push({ ...stop, id: stopId } as Stop);
+  });
+
+  const untracked = baseline.filter(stop => !registers[stop.id]);
+  sequentialPositions(untracked.length).forEach((position, index) => {
+    positions[untracked[index].id] = position;
+  });
+  stops.push(...untracked);
+
+  return {
+    stops: stops.sort(byPosition(positions)),
+    positions,
+    untracked,
+    clock: mergeClocks(ops.map(op => op.stamp.clock))
+  };
+};
+
+// Ids of the stops that can stay put when going from `from` to `to` (a longest common subsequence)
+const unmovedStops = (from: string[], to: string[]): Set<string> => {
+  const indices = to.map(id => from.indexOf(id));
+  const lengths = indices.map(() => 1);
+  const previous = indices.map(() => -1);
+  indices.forEach((index, i) => {
+    for (let j = 0; j < i; j++) {
+      if (indices[j] < index && lengths[j] + 1 > lengths[i]) {
+        lengths[i] = lengths[j] + 1;
+        previous[i] = j;
+      }
+    }
+  });
+
+  const unmoved = new Set<string>();
+  let i = lengths.indexOf(Math.max(0, ...lengths));
+  while (i >= 0) {
+    unmoved.add(to[i]);
+    i = previous[i];
+  }
+  return unmoved;
+};
+
+// Drops fields set to undefined, which Firestore can't store
+const definedFields = <T extends object>(fields: T): Partial<T> =>
+  Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined)) as Partial<T>;
+
+/**
+ * The operations that make `edit` on `state`, stamped for `replicaId`. Returns
+ * an empty list when the edit no longer applies, e.g. the stop was removed,
+ * or changes nothing.
+ */
+export const planStopEdit = (state: StopListState, edit: StopEdit, replicaId: string): StopOp[] => {
+  const changes: Omit<StopOp, 'stamp'>[] = [];
+  const { stops, positions } = state;
+  const exists = (stopId: string) => stops.some(stop => stop.id === stopId);
+
+  switch (edit.type) {
+    case 'add': {
+      const { id, ...fields } = edit.stop;
+      const last = stops[stops.length - 1];
+      changes.push({
+        stopId: id,
+        fields: { ...definedFields(fields), position: positionBetween(last ? positions[last.id] : null, null), deleted: false }
+      });
+      break;
+    }
+    case 'update':
+      if (!exists(edit.stopId)) return [];
+      changes.push({ stopId: edit.stopId, fields: definedFields(edit.changes) });
+      break;
+    case 'remove':
+      if (!exists(edit.stopId)) return [];
+      changes.push({ stopId: edit.stopId, fields: { deleted: true } });
+      break;
+    case 'reorder': {
+      const current = stops.map(stop => stop.id);
+      if (edit.stopIds.length !== current.length || !edit.stopIds.every(exists)) return [];
+
+      const unmoved = unmovedStops(current, edit.stopIds);
+      let previous: string | null = null;
+      edit.stopIds.forEach((stopId, index) => {
+        if (!unmoved.has(stopId)) {
+          const next = edit.stopIds.slice(index + 1).find(id => unmoved.has(id));
+          const position = positionBetween(previous, next ? positions[next] : null);
+          changes.push({ stopId, fields: { position } });
+          previous = position;
+        } else {
+          previous = positions[stopId];
+        }
+      });
+      break;
+    }
+  }
+
+  if (changes.length === 0) return [];
+
+  // Untracked stops become operations on first edit, so every client agrees where they sit from then on
+  const adopted = state.untracked.map(({ id, ...fields }) => ({
+    stopId: id,
+    fields: { ...definedFields(fields), position: positions[id], deleted: false }
+  }));
+
+  let count = state.clock[replicaId] ?? 0;
+  return [...adopted, ...changes].map(change => ({
+    ...change,
+    stamp: { clock: { ...state.clock, [replicaId]: ++count }, replicaId }
+  }));
+};
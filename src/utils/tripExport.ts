@@ -0,0 +1,152 @@
+import { Trip } from '../contexts/TripContext';
+import { LatLng } from './geo';
+
+export type ExportFormat = 'gpx' | 'kml' | 'geojson';
+
+type WaypointRole = 'origin' | 'stop' | 'destination';
+
+interface Waypoint {
+  name: string;
+  role: WaypointRole;
+  location: LatLng;
+}
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; extension: string; mimeType: string }> = {
+  gpx: { label: 'GPX (Garmin, GPS devices)', extension: 'gpx', mimeType: 'application/gpx+xml' },
+  kml: { label: 'KML (Google My Maps, Earth)', extension: 'kml', mimeType: 'application/vnd.google-earth.kml+xml' },
+  geojson: { label: 'GeoJSON (GIS tools)', extension: 'geojson', mimeType: 'application/geo+json' }
+};
+
+const getWaypoints = (trip: Trip): Waypoint[] => [
+  { name: trip.origin.name, role: 'origin', location: trip.origin.location },
+  ...trip.stops.map(stop => ({ name: stop.name, role: 'stop' as const, location: stop.location })),
+  { name: trip.destination.name, role: 'destination', location: trip.destination.location }
+];
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+const ROLE_LABELS: Record<WaypointRole, string> = {
+  origin: 'Starting Point',
+  stop: 'Stop',
+  destination: 'Destination'
+};
+
+export const toGpx = (trip: Trip, path?: LatLng[]): string => {
+  const waypoints = getWaypoints(trip);
+  const name = escapeXml(trip.name);
+  const point = (tag: string, { lat, lng }: LatLng, inner = '') =>
+    `<${tag} lat="${lat}" lon="${lng}">${inner}</${tag}>`;
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="MapSync" xmlns="http://www.topografix.com/GPX/1/1">',
+    `  <metadata><name>${name}</name><time>${new Date().toISOString()}</time></metadata>`,
+    ...waypoints.map(waypoint =>
+      `  ${point('wpt', waypoint.location, `<name>${escapeXml(waypoint.name)}</name><type>${ROLE_LABELS[waypoint.role]}</type>`)}`
+    ),
+    `  <rte>`,
+    `    <name>${name}</name>`,
+    ...waypoints.map(waypoint => `    ${point('rtept', waypoint.location, `<name>${escapeXml(waypoint.name)}</name>`)}`),
+    `  </rte>`,
+    ...(path && path.length > 1
+      ? [
+          `  <trk>`,
+          `    <name>${name}</name>`,
+          `    <trkseg>`,
+          ...path.map(location => `      ${point('trkpt', location)}`),
+          `    </trkseg>`,
+          `  </trk>`
+        ]
+      : []),
+    '</gpx>',
+    ''
+  ].join('\n');
+};
+
+export const toKml = (trip: Trip, path?: LatLng[]): string => {
+  const waypoints = getWaypoints(trip);
+  const line = path && path.length > 1 ? path : waypoints.map(waypoint => waypoint.location);
+  const coordinates = ({ lat, lng }: LatLng) => `${lng},${lat},0`;
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    '  <Document>',
+    `    <name>${escapeXml(trip.name)}</name>`,
+    ...waypoints.map(waypoint => [
+      '    <Placemark>',
+      `      <name>${escapeXml(waypoint.name)}</name>`,
+      `      <description>${ROLE_LABELS[waypoint.role]}</description>`,
+      `      <Point><coordinates>${coordinates(waypoint.location)}</coordinates></Point>`,
+      '    </Placemark>'
+    ].join('\n')),
+    '    <Placemark>',
+    `      <name>${escapeXml(trip.name)} route</name>`,
+    '      <LineString>',
+    '        <tessellate>1</tessellate>',
+    `        <coordinates>${line.map(coordinates).join(' ')}</coordinates>`,
+    '      </LineString>',
+    '    </Placemark>',
+    '  </Document>',
+    '</kml>',
+    ''
+  ].join('\n');
+};
+
+export const toGeoJson = (trip: Trip, path?: LatLng[]): string => {
+  const waypoints = getWaypoints(trip);
+  const routed = Boolean(path && path.length > 1);
+  const line = routed ? path! : waypoints.map(waypoint => waypoint.location);
+
+  const collection = {
+    type: 'FeatureCollection',
+    properties: { name: trip.name },
+    features: [
+      ...waypoints.map((waypoint, order) => ({
+        type: 'Feature',
+        properties: { name: waypoint.name, role: waypoint.role, order },
+        geometry: { type: 'Point', coordinates: [waypoint.location.lng, waypoint.location.lat] }
+      })),
+      {
+        type: 'Feature',
+        properties: { name: `${trip.name} route`, routed },
+        geometry: { type: 'LineString', coordinates: line.map(({ lat, lng }) => [lng, lat]) }
+      }
+    ]
+  };
+
+  return JSON.stringify(collection, null, 2);
+};
+
+const SERIALIZERS: Record<ExportFormat, (trip: Trip, path?: LatLng[]) => string> = {
+  gpx: toGpx,
+  kml: toKml,
+  geojson: toGeoJson
+};
+
+export const toFileName = (name: string) =>
+  name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'trip';
+
+export const downloadFile = (fileName: string, content: string, mimeType: string) => {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+export const downloadTrip = (trip: Trip, format: ExportFormat, path?: LatLng[]) => {
+  const { extension, mimeType } = EXPORT_FORMATS[format];
+  downloadFile(`${toFileName(trip.name)}.${extension}`, SERIALIZERS[format](trip, path), mimeType);
+};
@@ -0,0 +1,362 @@
+import { LatLng } from './geo';
+
+export interface ImportedPoint {
+  name: string;
+  location: LatLng;
+}
+
+export interface ImportedRoute {
+  name: string | null;
+  points: ImportedPoint[];
+  // Track or LineString geometry, when the file has one
+  path: LatLng[];
+}
+
+export interface ImportIssue {
+  message: string;
+  // 1-based line number (CSV, XML syntax errors)
+  line?: number;
+  // Human-readable pointer to the offending element, e.g. "features[3]" or "<wpt> #2"
+  feature?: string;
+}
+
+export class ImportError extends Error {
+  issues: ImportIssue[];
+
+  constructor(issues: ImportIssue[]) {
+    super(issues.map(formatIssue).join('\n'));
+    this.name = 'ImportError';
+    this.issues = issues;
+  }
+}
+
+export const formatIssue = (issue: ImportIssue) => {
+  const where = [issue.line !== undefined && `Line ${issue.line}`, issue.feature].filter(Boolean).join(', ');
+  return where ? `${where}: ${issue.message}` : issue.message;
+};
+
+export type ImportFormat = 'gpx' | 'kml' | 'geojson' | 'csv';
+
+export const IMPORT_ACCEPT = '.gpx,.kml,.geojson,.json,.csv';
+
+const validateLocation = (lat: number, lng: number): string | null => {
+  if (!Number.isFinite(lat) || !Number.isFinite(lng)) return 'Latitude and longitude must be numbers';
+  if (lat < -90 || lat > 90) return `Latitude ${lat} is out of range (-90 to 90)`;
+  if (lng < -180 || lng > 180) return `Longitude ${lng} is out of range (-180 to 180)`;
+  return null;
+};
+
+const detectFormat = (fileName: string, text: string): ImportFormat => {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  if (extension === 'gpx' || extension === 'kml' || extension === 'csv') return extension;
+  if (extension === 'geojson' || extension === 'json') return 'geojson';
+
+  const start = text.trimStart();
+  if (start.startsWith('{')) return 'geojson';
+  if (/<gpx[\s>]/.test(start)) return 'gpx';
+  if (/<kml[\s>]/.test(start)) return 'kml';
+  return 'csv';
+};
+
+// XML
+
+const parseXml = (text: string): Document => {
+  const document = new DOMParser().parseFromString(text, 'application/xml');
+  const parserError = document.getElementsByTagName('parsererror')[0];
+
+  if (parserError) {
+    const detail = parserError.textContent || '';
+    const line = detail.match(/line (?:number )?(\d+)/i);
+    throw new ImportError([{
+      message: 'The file is not well-formed XML',
+      line: line ? Number(line[1]) : undefined
+    }]);
+  }
+
+  return document;
+};
+
+// Namespace-agnostic lookups; GPX and KML files use several namespace versions
+const children = (parent: Element | Document, tag: string) =>
+  Array.from(parent.getElementsByTagNameNS('*', tag));
+
+const childText = (parent: Element, tag: string) =>
+  children(parent, tag)[0]?.textContent?.trim() || null;
+
+const parseGpx = (text: string): ImportedRoute => {
+  const document = parseXml(text);
+  const issues: ImportIssue[] = [];
+  const points: ImportedPoint[] = [];
+  const path: LatLng[] = [];
+
+  const readPoint = (element: Element, tag: string, index: number): LatLng | null => {
+    const lat = Number(element.getAttribute('lat'));
+    const lng = Number(element.getAttribute('lon'));
+    const problem = element.hasAttribute('lat') && element.hasAttribute('lon')
+      ? validateLocation(lat, lng)
+      : 'Missing lat or lon attribute';
+
+    if (problem) {
+      issues.push({ message: problem, feature: `<${tag}> #${index + 1}` });
+      return null;
+    }
+    return { lat, lng };
+  };
+
+  // The route is the stops in order; loose waypoints only count without one. Files
+  // from toGpx list every stop as both, so reading both would double them
+  const tag = children(document, 'rtept').length > 0 ? 'rtept' : 'wpt';
+  children(document, tag).forEach((element, index) => {
+    const location = readPoint(element, tag, index);
+    if (location) {
+      points.push({ name: childText(element, 'name') || `${tag === 'wpt' ? 'Waypoint' : 'Route point'} ${index + 1}`, location });
+    }
+  });
+
+  children(document, 'trkpt').forEach((element, index) => {
+    const location = readPoint(element, 'trkpt', index);
+    if (location) path.push(location);
+  });
+
+  if (issues.length > 0) throw new ImportError(issues);
+
+  const metadata = children(document, 'metadata')[0];
+  return { name: (metadata && childText(metadata, 'name')) || null, points, path };
+};
+
+const parseKmlCoordinates = (raw: string, feature: string, issues: ImportIssue[]): LatLng[] =>
+  raw.trim().split(/\s+/).filter(Boolean).flatMap(tuple => {
+    const [lng, lat] = tuple.split(',').map(Number);
+    const problem = validateLocation(lat, lng);
+    if (problem) {
+      issues.push({ message: `${problem} in "${tuple}"`, feature });
+      return [];
+    }
+    return [{ lat, lng }];
+  });
+
+const parseKml = (text: string): ImportedRoute => {
+  const document = parseXml(text);
+  const issues: ImportIssue[] = [];
+  const points: ImportedPoint[] = [];
+  const path: LatLng[] = [];
+
+  children(document, 'Placemark').forEach((placemark, index) => {
+    const name = childText(placemark, 'name');
+    const feature = `Placemark #${index + 1}${name ? ` (${name})` : ''}`;
+
+    const point = children(placemark, 'Point')[0];
+    const line = children(placemark, 'LineString')[0];
+
+    if (point) {
+      const [location] = parseKmlCoordinates(childText(point, 'coordinates') || '', feature, issues);
+      if (location) points.push({ name: name || `Placemark ${index + 1}`, location });
+    } else if (line) {
+      path.push(...parseKmlCoordinates(childText(line, 'coordinates') || '', feature, issues));
+    } else {
+      issues.push({ message: 'Placemark has no Point or LineString', feature });
+    }
+  });
+
+  if (issues.length > 0) throw new ImportError(issues);
+
+  const kmlDocument = children(document, 'Document')[0];
+  const name = kmlDocument
+    ? Array.from(kmlDocument.children).find(child => child.localName === 'name')?.textContent?.trim() || null
+    : null;
+
+  return { name, points, path };
+};
+
+// GeoJSON
+
+interface GeoJsonGeometry {
+  type: string;
+  coordinates?: unknown;
+}
+
+interface GeoJsonFeature {
+  type: 'Feature';
+  properties?: Record<string, unknown> | null;
+  geometry: GeoJsonGeometry | null;
+}
+
+const parseGeoJson = (text: string): ImportedRoute => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (err) {
+    const position = err instanceof SyntaxError ? err.message.match(/position (\d+)/) : null;
+    const line = position ? text.slice(0, Number(position[1])).split('\n').length : undefined;
+    throw new ImportError([{ message: 'The file is not valid JSON', line }]);
+  }
+
+  // Valid JSON, but e.g. null, a number or an array
+  if (parsed === null || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new ImportError([{ message: 'Expected a GeoJSON FeatureCollection, Feature or geometry' }]);
+  }
+  const data = parsed as { type?: string; name?: string; properties?: { name?: string }; features?: GeoJsonFeature[] };
+
+  const features: GeoJsonFeature[] =
+    data.type === 'FeatureCollection' && Array.isArray(data.features) ? data.features
+      : data.type === 'Feature' ? [data as unknown as GeoJsonFeature]
+        : data.type ? [{ type: 'Feature', properties: {}, geometry: data as GeoJsonGeometry }]
+          : [];
+
+  if (features.length === 0) {
+    throw new ImportError([{ message: 'Expected a GeoJSON FeatureCollection, Feature or geometry' }]);
+  }
+
+  const issues: ImportIssue[] = [];
+  const points: ImportedPoint[] = [];
+  const path: LatLng[] = [];
+
+  const toLocation = (position: unknown, feature: string): LatLng | null => {
+    if (!Array.isArray(position) || position.length < 2) {
+      issues.push({ message: 'Position must be a [longitude, latitude] array', feature });
+      return null;
+    }
+    const [lng, lat] = position.map(Number);
+    const problem = validateLocation(lat, lng);
+    if (problem) {
+      issues.push({ message: problem, feature });
+      return null;
+    }
+    return { lat, lng };
+  };
+
+  features.forEach((feature, index) => {
+    const pointer = data.type === 'FeatureCollection' ? `features[${index}]` : 'feature';
+    // Entries in features aren't guaranteed to be objects either
+    const name = typeof feature?.properties?.name === 'string' ? feature.properties.name : null;
+    const geometry = feature?.geometry;
+
+    switch (geometry?.type) {
+      case 'Point': {
+        const location = toLocation(geometry.coordinates, pointer);
+        if (location) points.push({ name: name || `Point ${points.length + 1}`, location });
+        break;
+      }
+      case 'MultiPoint':
+        (Array.isArray(geometry.coordinates) ? geometry.coordinates : []).forEach((position, i) => {
+          const location = toLocation(position, `${pointer}.coordinates[${i}]`);
+          if (location) points.push({ name: `${name || 'Point'} ${i + 1}`, location });
+        });
+        break;
+      case 'LineString':
+        (Array.isArray(geometry.coordinates) ? geometry.coordinates : []).forEach((position, i) => {
+          const location = toLocation(position, `${pointer}.coordinates[${i}]`);
+          if (location) path.push(location);
+        });
+        break;
+      default:
+        issues.push({
+          message: `Unsupported geometry type ${geometry?.type ?? 'null'}; use Point, MultiPoint or LineString`,
+          feature: pointer
+        });
+    }
+  });
+
+  if (issues.length > 0) throw new ImportError(issues);
+
+  return { name: data.name || data.properties?.name || null, points, path };
+};
+
+// CSV
+
+// Splits one CSV row, honouring double-quoted fields
+const splitCsvRow = (row: string): string[] => {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < row.length; i++) {
+    const char = row[i];
+    if (quoted) {
+      if (char === '"' && row[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      cells.push(cell);
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell);
+  return cells.map(value => value.trim());
+};
+
+const parseCsv = (text: string): ImportedRoute => {
+  const issues: ImportIssue[] = [];
+  const points: ImportedPoint[] = [];
+
+  text.split(/\r?\n/).forEach((row, index) => {
+    const line = index + 1;
+    if (!row.trim()) return;
+
+    const cells = splitCsvRow(row);
+
+    // Optional header row
+    if (index === 0 && cells[1]?.toLowerCase().startsWith('lat')) return;
+
+    if (cells.length < 3) {
+      issues.push({ message: 'Expected name,lat,lng', line });
+      return;
+    }
+
+    const [name, rawLat, rawLng] = cells;
+    const lat = Number(rawLat);
+    const lng = Number(rawLng);
+    const problem = rawLat === '' || rawLng === '' ? 'Latitude and longitude are required' : validateLocation(lat, lng);
+
+    if (!name) {
+      issues.push({ message: 'Name is required', line });
+    } else if (problem) {
+      issues.push({ message: problem, line });
+    } else {
+      points.push({ name, location: { lat, lng } });
+    }
+  });
+
+  if (issues.length > 0) throw new ImportError(issues);
+
+  return { name: null, points, path: [] };
+};
+
+const PARSERS: Record<ImportFormat, (text: string) => ImportedRoute> = {
+  gpx: parseGpx,
+  kml: parseKml,
+  geojson: parseGeoJson,
+  csv: parseCsv
+};
+
+/**
+ * Parses a GPX, KML, GeoJSON or `name,lat,lng` CSV file into named points.
+ * Throws ImportError listing every problem found, each pointing at its line
+ * or feature.
+ */
+export const parseRouteFile = (fileName: string, text: string): ImportedRoute => {
+  const route = PARSERS[detectFormat(fileName, text)](text);
+
+  // A bare track or LineString still gives us a start and an end
+  if (route.points.length < 2 && route.path.length >= 2) {
+    route.points = [
+      { name: 'Start', location: route.path[0] },
+      { name: 'End', location: route.path[route.path.length - 1] }
+    ];
+  }
+
+  if (route.points.length < 2) {
+    throw new ImportError([{ message: 'The file needs at least two points to make a trip' }]);
+  }
+
+  return route;
+};
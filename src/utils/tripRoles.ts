@@ -0,0 +1,31 @@
+import { Trip, TripRole } from '../contexts/TripContext';
+
+export const ROLE_LABELS: Record<TripRole, string> = {
+  owner: 'Owner',
+  editor: 'Editor',
+  viewer: 'Viewer'
+};
+
+export class TripPermissionError extends Error {
+  constructor(message = "You don't have permission to do that on this trip") {
+    super(message);
+    this.name = 'TripPermissionError';
+  }
+}
+
+/**
+ * The role `uid` holds on `trip`, or null for non-participants. Trips created
+ * before roles existed have no `roles` map: their creator owns them and
+ * everyone else can edit, which is how they behaved then.
+ */
+export const getTripRole = (trip: Trip, uid: string | undefined): TripRole | null => {
+  if (!uid || !trip.participants.includes(uid)) return null;
+  return trip.roles?.[uid] ?? (uid === trip.createdBy ? 'owner' : 'editor');
+};
+
+export const canEditTrip = (trip: Trip, uid: string | undefined) => {
+  const role = getTripRole(trip, uid);
+  return role === 'owner' || role === 'editor';
+};
+
+export const isTripOwner = (trip: Trip, uid: string | undefined) => getTripRole(trip, uid) === 'owner';
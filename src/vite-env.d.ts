@@ -1 +1,26 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_FIREBASE_API_KEY: string;
+  readonly VITE_FIREBASE_AUTH_DOMAIN: string;
+  readonly VITE_FIREBASE_PROJECT_ID: string;
+  readonly VITE_FIREBASE_STORAGE_BUCKET: string;
+  readonly VITE_FIREBASE_MESSAGING_SENDER_ID: string;
+  readonly VITE_FIREBASE_APP_ID: string;
+  readonly VITE_USE_FIREBASE_EMULATORS?: string;
+  readonly VITE_FIREBASE_EMULATOR_HOST?: string;
+  readonly VITE_GOOGLE_MAPS_API_KEY?: string;
+  readonly VITE_GEOCODER?: 'google' | 'nominatim' | 'fixture';
+  readonly VITE_NOMINATIM_URL?: string;
+  readonly VITE_PLACES_PROVIDER?: 'google' | 'photon' | 'fixture';
+  readonly VITE_PHOTON_URL?: string;
+  readonly VITE_ROUTING_PROVIDER?: 'google' | 'osrm';
+  readonly VITE_OSRM_URL?: string;
+  readonly VITE_OFFLINE_TILE_URL?: string;
+  readonly VITE_OFFLINE_TILE_ATTRIBUTION?: string;
+  readonly VITE_VAPID_PUBLIC_KEY?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
@@ -1,9 +1,23 @@
-import { defineConfig } from 'vite';
+import { defineConfig, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Lists the build's fingerprinted files for public/sw.js to cache when it installs,
+// so the first visit's bundle is available offline without being fetched again
+const precacheManifest = (): Plugin => ({
+  name: 'mapsync-precache-manifest',
+  apply: 'build',
+  enforce: 'post',
+  generateBundle(_options, bundle) {
+    const urls = Object.keys(bundle)
+      .filter(fileName => fileName.startsWith('assets/'))
+      .map(fileName => `/${fileName}`);
+    this.emitFile({ type: 'asset', fileName: 'precache-manifest.json', source: JSON.stringify(urls) });
+  },
+});
+
 // https://vitejs.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), precacheManifest()],
   optimizeDeps: {
     exclude: ['lucide-react'],
   },